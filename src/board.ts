@@ -0,0 +1,166 @@
+import {
+  Board,
+  BlockPosition,
+  CubePosition,
+  CellType,
+  FilledCell,
+  GameConfig,
+  ShapeType,
+} from "./types";
+
+// each row is stored as the bits of a 32 bit integer, which limits the width of the board
+export const MAX_BOARD_WIDTH = 30;
+
+/**
+ * Creates an empty board covering the whole grid, the visible rows plus the hidden buffer zone above them.
+ * @param config - The game config.
+ * @returns The empty board.
+ */
+export const createBoard = (config: GameConfig): Board => ({
+  rows: Array.from({ length: config.height + config.bufferHeight }, () => 0),
+  cells: Array.from({ length: config.height + config.bufferHeight }, () =>
+    createEmptyCellRow(config)
+  ),
+});
+
+// a row of cells where no cell is taken
+const createEmptyCellRow = (config: GameConfig) =>
+  Array.from({ length: config.width }, () => undefined);
+
+// the bitmask of a row where every cell is taken
+const getFullRow = (config: GameConfig): number => (1 << config.width) - 1;
+
+/**
+ * Checks if a cell of the board is taken by a locked block, in constant time.
+ * Cells outside the board are never taken, checking the walls and floor is up to the caller.
+ * @param board - The board.
+ * @param cubePos - The position of the cell.
+ * @returns Whether the cell is taken.
+ */
+export const isCellFilled = (board: Board, cubePos: CubePosition): boolean =>
+  cubePos.x >= 0 &&
+  cubePos.x < MAX_BOARD_WIDTH &&
+  ((board.rows[cubePos.y] ?? 0) & (1 << cubePos.x)) !== 0;
+
+/**
+ * Locks the cubes of a block into the board. The cells remember the shape type of the block.
+ * @param board - The board.
+ * @param blockPos - The cubes of the block.
+ * @param shape - The shape type of the block.
+ * @returns The new board with the cells of the block taken.
+ */
+export const placeBlock = (
+  board: Board,
+  blockPos: BlockPosition,
+  shape: ShapeType
+): Board => ({
+  rows: board.rows.map((row, y) =>
+    blockPos
+      .filter((cubePos) => cubePos.y === y)
+      .reduce((newRow, cubePos) => newRow | (1 << cubePos.x), row)
+  ),
+  cells: board.cells.map((cellRow, y) =>
+    blockPos.some((cubePos) => cubePos.y === y)
+      ? cellRow.map((cell, x) =>
+          blockPos.some((cubePos) => cubePos.x === x && cubePos.y === y)
+            ? shape
+            : cell
+        )
+      : cellRow
+  ),
+});
+
+/**
+ * Gets the rows of the board where every cell is taken.
+ * @param board - The board.
+ * @param config - The game config.
+ * @returns The indices of the full rows, from top to bottom.
+ */
+export const getFullRows = (board: Board, config: GameConfig): number[] =>
+  board.rows.flatMap((row, y) => (row === getFullRow(config) ? [y] : []));
+
+/**
+ * Clears the full rows of the board. The rows above a cleared row shift down and empty rows come in at the top.
+ * @param board - The board.
+ * @param config - The game config.
+ * @returns The new board and the number of rows cleared.
+ */
+export const clearFullRows = (
+  board: Board,
+  config: GameConfig
+): { newBoard: Board; clearedRows: number } => {
+  const fullRow = getFullRow(config);
+  const isRemaining = (_: unknown, y: number) => board.rows[y] !== fullRow;
+  const remainingRows = board.rows.filter(isRemaining);
+  const clearedRows = board.rows.length - remainingRows.length;
+
+  if (clearedRows === 0) {
+    return { newBoard: board, clearedRows: 0 }; // no full rows, return the board as is
+  }
+
+  return {
+    newBoard: {
+      rows: [...Array.from({ length: clearedRows }, () => 0), ...remainingRows],
+      cells: [
+        ...Array.from({ length: clearedRows }, () =>
+          createEmptyCellRow(config)
+        ),
+        ...board.cells.filter(isRemaining),
+      ],
+    },
+    clearedRows,
+  };
+};
+
+/**
+ * Pushes garbage rows up into the board from below, the rows above shift up and the top rows are pushed out of the grid.
+ * Each garbage row is full but for one hole.
+ * @param board - The board.
+ * @param holes - The column of the hole of each garbage row, from top to bottom.
+ * @param config - The game config.
+ * @returns The new board, and whether taken cells were pushed out over the top of the grid.
+ */
+export const addGarbageRows = (
+  board: Board,
+  holes: ReadonlyArray<number>,
+  config: GameConfig
+): { newBoard: Board; overflow: boolean } => ({
+  newBoard: {
+    rows: [
+      ...board.rows.slice(holes.length),
+      ...holes.map((hole) => getFullRow(config) & ~(1 << hole)),
+    ],
+    cells: [
+      ...board.cells.slice(holes.length),
+      ...holes.map((hole) =>
+        Array.from({ length: config.width }, (_, x): CellType | undefined =>
+          x === hole ? undefined : "Garbage"
+        )
+      ),
+    ],
+  },
+  overflow: board.rows.slice(0, holes.length).some((row) => row !== 0),
+});
+
+/**
+ * Counts the rows of the board with garbage left in them.
+ * @param board - The board.
+ * @returns The number of rows with a cell taken by garbage.
+ */
+export const countGarbageRows = (board: Board): number =>
+  board.cells.filter(
+    (cellRow, y) => board.rows[y] !== 0 && cellRow.includes("Garbage")
+  ).length;
+
+/**
+ * Gets all the taken cells of the board, used to render the locked blocks.
+ * @param board - The board.
+ * @returns The positions and types of the taken cells, row by row.
+ */
+export const getFilledCells = (board: Board): FilledCell[] =>
+  board.cells.flatMap((cellRow, y) =>
+    // rows without any taken cell are skipped without looking at their cells
+    board.rows[y] === 0
+      ? []
+      : cellRow.flatMap((type, x) => (type ? [{ x, y, type }] : []))
+  );
@@ -0,0 +1,280 @@
+import { clearFullRows, isCellFilled, placeBlock } from "./board";
+import { Bot, Constants, DefaultBotWeights } from "./constants";
+import { createInitialState, gameActions } from "./game";
+import {
+  dropBlock,
+  getGridHeight,
+  moveBlockLeft,
+  moveBlockRight,
+  rotateBlockClockwise,
+} from "./generics";
+import { getCubes } from "./shapes";
+import {
+  BlockAction,
+  Board,
+  BoardFeatures,
+  BotFeature,
+  BotGameResult,
+  BotReport,
+  BotWeights,
+  GameConfig,
+  GameEvent,
+  Piece,
+  Placement,
+  State,
+} from "./types";
+
+// the features of a board, in the order the weights are listed
+const BotFeatures = Object.keys(DefaultBotWeights) as BotFeature[];
+
+// placements that drop a block onto the same cells are the same placement, whatever orientation and events got it there
+const getPlacementKey = (block: Piece): string =>
+  getCubes(block)
+    .map(({ x, y }) => `${x},${y}`)
+    .sort()
+    .join(" ");
+
+/**
+ * Moves a block again and again with a block action until it cannot move any further, e.g. to the wall.
+ * @param placement - The block and the events that got it where it is.
+ * @param action - The block action, e.g. moveBlockLeft.
+ * @param event - The game event of the action.
+ * @param board - The board with the locked blocks.
+ * @param config - The game config.
+ * @returns The block after each move, with the events that got it there.
+ */
+const slide = (
+  placement: Placement,
+  action: BlockAction,
+  event: GameEvent,
+  board: Board,
+  config: GameConfig
+): ReadonlyArray<Placement> => {
+  const block = action(placement.block, board, config);
+  if (!block || block === placement.block) {
+    return [];
+  }
+  const moved: Placement = { block, events: [...placement.events, event] };
+  return [moved, ...slide(moved, action, event, board, config)];
+};
+
+/**
+ * Finds every place the current block can be dropped to: each orientation it can be rotated to where it is,
+ * moved to each column it can reach, then hard dropped. The block is moved with the block actions of the game,
+ * so the events of a placement move it exactly there and never make an illegal move.
+ * @param state - The game state.
+ * @returns The placements, without the ones that drop the block onto the same cells as another one.
+ */
+export const findPlacements = (state: State): ReadonlyArray<Placement> => {
+  const { currentBlock, board, config } = state;
+  if (!currentBlock) {
+    return [];
+  }
+
+  const rotated = Array.from({ length: 3 }).reduce<ReadonlyArray<Placement>>(
+    (placements) => {
+      const last = placements[placements.length - 1];
+      const block = rotateBlockClockwise(last.block, board, config);
+      return block && block !== last.block
+        ? [
+            ...placements,
+            { block, events: [...last.events, "RotateClockwise"] },
+          ]
+        : placements;
+    },
+    [{ block: currentBlock, events: [] }]
+  );
+  const shifted = rotated.flatMap((placement) => [
+    placement,
+    ...slide(placement, moveBlockLeft, "Left", board, config),
+    ...slide(placement, moveBlockRight, "Right", board, config),
+  ]);
+  const dropped = shifted.map(
+    ({ block, events }): Placement => ({
+      block: dropBlock(block, board, config) ?? block,
+      events: [...events, "HardDrop"],
+    })
+  );
+
+  // the first placement onto some cells is kept, it gets there with the fewest rotations
+  const keys = dropped.map(({ block }) => getPlacementKey(block));
+  return dropped.filter((_, index) => keys.indexOf(keys[index]) === index);
+};
+
+/**
+ * Measures the features of a board the bot scores its placements by.
+ * @param board - The board after a placement, with its full rows cleared.
+ * @param config - The game config.
+ * @param linesCleared - The rows the placement cleared.
+ * @returns The value of each feature.
+ */
+export const getBoardFeatures = (
+  board: Board,
+  config: GameConfig,
+  linesCleared: number
+): BoardFeatures => {
+  const gridHeight = getGridHeight(config);
+  const columns = Array.from({ length: config.width }, (_, x) => x);
+  const rows = Array.from({ length: gridHeight }, (_, y) => y);
+  // the height of a column is measured from the floor to its highest taken cell
+  const heights = columns.map((x) => {
+    const top = rows.find((y) => isCellFilled(board, { x, y }));
+    return top === undefined ? 0 : gridHeight - top;
+  });
+  const holes = columns.reduce(
+    (sum, x) =>
+      sum +
+      rows.filter(
+        (y) => y > gridHeight - heights[x] && !isCellFilled(board, { x, y })
+      ).length,
+    0
+  );
+  // the walls are neighbours no column is lower than
+  const wells = heights.reduce(
+    (sum, height, x) =>
+      sum +
+      Math.max(
+        0,
+        Math.min(heights[x - 1] ?? gridHeight, heights[x + 1] ?? gridHeight) -
+          height
+      ),
+    0
+  );
+
+  return {
+    aggregateHeight: heights.reduce((sum, height) => sum + height, 0),
+    holes,
+    bumpiness: heights
+      .slice(1)
+      .reduce((sum, height, x) => sum + Math.abs(height - heights[x]), 0),
+    linesCleared,
+    wells,
+  };
+};
+
+/**
+ * Scores the board a placement leaves: the features of the board once the full rows are cleared, times their weights.
+ * @param state - The game state the block is placed in.
+ * @param placement - The placement.
+ * @param weights - The weight of each feature.
+ * @returns The score, higher is better.
+ */
+export const evaluatePlacement = (
+  state: State,
+  { block }: Placement,
+  weights: BotWeights
+): number => {
+  const { newBoard, clearedRows } = clearFullRows(
+    placeBlock(state.board, getCubes(block), block.shape),
+    state.config
+  );
+  const features = getBoardFeatures(newBoard, state.config, clearedRows);
+  return BotFeatures.reduce(
+    (score, feature) => score + weights[feature] * features[feature],
+    0
+  );
+};
+
+/**
+ * Picks where the bot drops the current block: the placement that leaves the best scoring board.
+ * @param state - The game state.
+ * @param weights - The weight of each feature of a board.
+ * @returns The game events that drop the block there, none when there is no block to place or the game is paused or over.
+ */
+export const getBotMoves = (
+  state: State,
+  weights: BotWeights = DefaultBotWeights
+): ReadonlyArray<GameEvent> => {
+  if (state.paused || state.gameEnd) {
+    return [];
+  }
+  const best = findPlacements(state).reduce<
+    { placement: Placement; score: number } | undefined
+  >((best, placement) => {
+    const score = evaluatePlacement(state, placement, weights);
+    return best && best.score >= score ? best : { placement, score };
+  }, undefined);
+  return best?.placement.events ?? [];
+};
+
+/**
+ * Plays a game with the bot without a browser, until it ends. The bot drops each block as soon as it spawns.
+ * @param config - The game config.
+ * @param seed - The seed of the game.
+ * @param weights - The weight of each feature of a board.
+ * @param maxTicks - The ticks after which the game is stopped if it has not ended.
+ * @returns How the game went.
+ */
+export const playBotGame = (
+  config: GameConfig,
+  seed: number,
+  weights: BotWeights = DefaultBotWeights,
+  maxTicks: number = Bot.MAX_GAME_MS / Constants.TICK_RATE_MS
+): BotGameResult => {
+  const { state, pieces } = Array.from({ length: maxTicks }).reduce<{
+    state: State;
+    pieces: number;
+  }>(
+    (played) => {
+      if (played.state.gameEnd) {
+        return played;
+      }
+      const ticked = gameActions.Tick(played.state);
+      const moves = getBotMoves(ticked, weights);
+      return {
+        state: moves.reduce((s, event) => gameActions[event](s), ticked),
+        pieces: played.pieces + (moves.length > 0 ? 1 : 0),
+      };
+    },
+    { state: createInitialState(config, seed), pieces: 0 }
+  );
+  // a game that restarts itself once it is over only keeps its result
+  const { lines, score } = state.lastResult ?? state;
+  return { seed, lines, score, pieces };
+};
+
+/**
+ * Plays a game with the bot for each seed, to see how well a set of weights plays.
+ * @param config - The game config.
+ * @param seeds - The seeds of the games.
+ * @param weights - The weight of each feature of a board.
+ * @returns The outcome of each game and the average lines cleared per game.
+ */
+export const runBotGames = (
+  config: GameConfig,
+  seeds: ReadonlyArray<number>,
+  weights: BotWeights = DefaultBotWeights
+): BotReport => {
+  const games = seeds.map((seed) => playBotGame(config, seed, weights));
+  return {
+    games,
+    averageLines:
+      games.reduce((sum, game) => sum + game.lines, 0) /
+      Math.max(games.length, 1),
+  };
+};
+
+/**
+ * Parses the weights of the bot, e.g. from the command line. Weights that are not given keep their default.
+ * @param json - The JSON text of the weights, e.g. {"holes": -0.5}.
+ * @returns The weights.
+ */
+export const parseBotWeights = (json: string): BotWeights => {
+  const weights = JSON.parse(json) as Record<string, unknown>;
+  if (typeof weights !== "object" || weights === null) {
+    throw new Error("Not bot weights");
+  }
+  Object.entries(weights).forEach(([feature, weight]) => {
+    if (!(BotFeatures as string[]).includes(feature)) {
+      throw new Error(
+        `Unknown bot weight ${feature}, expected one of ${BotFeatures.join(
+          ", "
+        )}`
+      );
+    }
+    if (typeof weight !== "number" || !Number.isFinite(weight)) {
+      throw new Error(`The bot weight ${feature} is not a number`);
+    }
+  });
+  return { ...DefaultBotWeights, ...weights };
+};
@@ -0,0 +1,20 @@
+import { runBotGames, parseBotWeights } from "./bot";
+import { DefaultConfig, isGameModeName } from "./constants";
+
+// Plays games with the bot from the command line with npm run bot and reports the lines it cleared, to tune its weights, e.g.
+// GAMES=20 MODE=Survival WEIGHTS='{"holes": -0.5}' npm run bot
+const { GAMES, MODE, WEIGHTS } = process.env;
+const seeds = Array.from(
+  { length: Number(GAMES) || 10 },
+  (_, index) => index + 1
+);
+const report = runBotGames(
+  { ...DefaultConfig, ...(isGameModeName(MODE) && { mode: MODE }) },
+  seeds,
+  parseBotWeights(WEIGHTS ?? "{}")
+);
+
+report.games.forEach(({ seed, lines, score, pieces }) =>
+  console.log(`Seed ${seed}: ${lines} lines, ${score} points, ${pieces} blocks`)
+);
+console.log(`Average lines per game: ${report.averageLines}`);
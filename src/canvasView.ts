@@ -0,0 +1,334 @@
+import { getCube, getViewport, PreviewCube } from "./constants";
+import {
+  CanvasRendererElements,
+  CubePosition,
+  CubeSize,
+  CubeStyle,
+  CubeStyles,
+  GameConfig,
+  RenderCanvas,
+  Renderer,
+  State,
+  TextPop,
+  Theme,
+} from "./types";
+import {
+  fromCellKey,
+  getBoardCubes,
+  getGameOverBox,
+  getGridLinesPath,
+  getHoldCubes,
+  getPatternPath,
+  getPreviewCubes,
+  getTextPopStyle,
+  isGameOverBoxShown,
+  renderScorePanel,
+} from "./view";
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// what the board canvas shows, a frame is only drawn again when one of these changes
+type BoardFrame = Readonly<{
+  state: Pick<
+    State,
+    | "board"
+    | "currentBlock"
+    | "config"
+    | "clearTimer"
+    | "lockFlash"
+    | "textPop"
+    | "gameEnd"
+    | "gameOverReason"
+    | "paused"
+  >;
+  theme: Theme;
+}>;
+
+// gets the 2d context of a canvas, throwing if the browser cannot draw 2d on it
+const getContext = (canvas: RenderCanvas): Context2D => {
+  const context = canvas.getContext("2d") as Context2D | null;
+  if (!context) {
+    throw new Error("Could not get a 2d context of the canvas");
+  }
+  return context;
+};
+
+// draws a cube with its outline and pattern
+const drawCube = (
+  context: Context2D,
+  size: CubeSize,
+  cubePos: CubePosition,
+  style: CubeStyle
+) => {
+  context.globalAlpha = style.opacity;
+  context.fillStyle = style.color;
+  context.fillRect(
+    size.WIDTH * cubePos.x,
+    size.HEIGHT * cubePos.y,
+    size.WIDTH,
+    size.HEIGHT
+  );
+  context.strokeStyle = style.outline;
+  context.lineWidth = style.outlineWidth;
+  context.strokeRect(
+    size.WIDTH * cubePos.x,
+    size.HEIGHT * cubePos.y,
+    size.WIDTH,
+    size.HEIGHT
+  );
+  if (style.pattern !== "None") {
+    // the patterns are the same paths the svg renderer draws
+    const pattern = new Path2D(getPatternPath(style.pattern, size, cubePos));
+    context.strokeStyle = style.patternColor;
+    context.lineWidth = 2;
+    context.stroke(pattern);
+    if (style.pattern === "Dot") {
+      context.fillStyle = style.patternColor;
+      context.fill(pattern);
+    }
+  }
+  context.globalAlpha = 1;
+};
+
+/**
+ * Draws a whole box of cubes, the board or a preview box, over its background and grid lines.
+ * @param canvas - The canvas to draw into.
+ * @param size - The size of a cube.
+ * @param background - The background color.
+ * @param gridLines - The color of the grid lines, undefined for no grid lines.
+ * @param cubes - The cubes to draw.
+ */
+const drawCubes = (
+  canvas: RenderCanvas,
+  size: CubeSize,
+  background: string,
+  gridLines: string | undefined,
+  cubes: CubeStyles
+) => {
+  const context = getContext(canvas);
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = background;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  if (gridLines) {
+    context.strokeStyle = gridLines;
+    context.lineWidth = 1;
+    context.stroke(
+      new Path2D(
+        getGridLinesPath(
+          canvas.width / size.WIDTH,
+          canvas.height / size.HEIGHT,
+          size
+        )
+      )
+    );
+  }
+  cubes.forEach((style, key) =>
+    drawCube(context, size, fromCellKey(key), style)
+  );
+};
+
+// draws the game over box on top of the board
+const drawGameOverBox = (
+  canvas: RenderCanvas,
+  theme: Theme,
+  config: GameConfig,
+  gameOverReason?: string
+) => {
+  const context = getContext(canvas);
+  const gameOverBox = getGameOverBox(config);
+  context.fillStyle = theme.gameOverBackground;
+  context.fillRect(
+    gameOverBox.x,
+    gameOverBox.y,
+    gameOverBox.width,
+    gameOverBox.height
+  );
+  context.strokeStyle = theme.outline;
+  context.lineWidth = 1;
+  context.strokeRect(
+    gameOverBox.x,
+    gameOverBox.y,
+    gameOverBox.width,
+    gameOverBox.height
+  );
+  context.fillStyle = theme.gameOverText;
+  context.font = "16px serif";
+  context.fillText("Game Over", gameOverBox.textX, gameOverBox.textY);
+  context.fillText(
+    gameOverReason ?? "",
+    gameOverBox.textX,
+    gameOverBox.reasonY
+  );
+};
+
+// draws the text pop over the board, centered in the upper part of the board
+const drawTextPop = (canvas: RenderCanvas, theme: Theme, textPop: TextPop) => {
+  const context = getContext(canvas);
+  const { fontSize, opacity } = getTextPopStyle(textPop);
+  context.globalAlpha = opacity;
+  context.fillStyle = theme.textPop;
+  context.font = `bold ${fontSize}px serif`;
+  context.textAlign = "center";
+  context.fillText(textPop.text, canvas.width / 2, canvas.height / 3);
+  context.textAlign = "start";
+  context.globalAlpha = 1;
+};
+
+// covers the whole board while the game is paused
+const drawPauseOverlay = (canvas: RenderCanvas, theme: Theme) => {
+  const context = getContext(canvas);
+  context.fillStyle = theme.background;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = theme.textPop;
+  context.font = "bold 24px serif";
+  context.textAlign = "center";
+  context.fillText("PAUSED", canvas.width / 2, canvas.height / 2);
+  context.textAlign = "start";
+};
+
+// checks if the board canvas already shows a frame
+const isSameFrame = (a: BoardFrame | undefined, b: BoardFrame): boolean =>
+  a !== undefined &&
+  a.theme === b.theme &&
+  a.state.board === b.state.board &&
+  a.state.currentBlock === b.state.currentBlock &&
+  a.state.config === b.state.config &&
+  a.state.clearTimer === b.state.clearTimer &&
+  a.state.lockFlash === b.state.lockFlash &&
+  a.state.textPop === b.state.textPop &&
+  a.state.gameEnd === b.state.gameEnd &&
+  a.state.gameOverReason === b.state.gameOverReason &&
+  a.state.paused === b.state.paused;
+
+/* Drawn frames */
+
+// A canvas keeps what was drawn on it, so a frame is only drawn again when the state or theme it shows has changed.
+// What each board canvas shows is the only state the canvas renderer keeps, it is updated in place as it mirrors
+// the pixels of the canvas, like the cell pools of the svg renderer.
+type DrawnFrame = {
+  frame?: BoardFrame; // undefined when nothing is drawn, e.g. after a resize cleared the canvas
+  overlayPending: boolean; // whether the overlays still have to be drawn over the frame
+};
+
+// what every board canvas rendered so far shows
+const drawnFrames = new WeakMap<RenderCanvas, DrawnFrame>();
+
+/**
+ * Gets what a board canvas shows, nothing the first time.
+ * @param canvas - The board canvas.
+ * @returns The frame drawn on the canvas.
+ */
+const getDrawnFrame = (canvas: RenderCanvas): DrawnFrame => {
+  const drawn = drawnFrames.get(canvas);
+  if (drawn) {
+    return drawn;
+  }
+  const empty: DrawnFrame = { overlayPending: false };
+  drawnFrames.set(canvas, empty);
+  return empty;
+};
+
+/**
+ * Creates the renderer that draws the game into 2d canvases.
+ * Instead of keeping an element per cell, the board is drawn from scratch whenever it changes,
+ * which stays fast for large boards and themes with many effects, and works with offscreen canvases too.
+ * @param elements - The canvases to draw into and the elements of the info panel.
+ * @returns The canvas renderer.
+ */
+export const createCanvasRenderer = ({
+  board,
+  preview,
+  hold,
+  textElements,
+}: CanvasRendererElements): Renderer => {
+  const renderBoard = (state: State, theme: Theme) => {
+    const drawn = getDrawnFrame(board);
+    const frame: BoardFrame = { state, theme };
+    if (isSameFrame(drawn.frame, frame)) {
+      return;
+    }
+    drawCubes(
+      board,
+      getCube(state.config),
+      theme.background,
+      theme.gridLines,
+      getBoardCubes(state, theme)
+    );
+    drawn.frame = frame;
+    drawn.overlayPending = true;
+  };
+
+  return {
+    resize: (config: GameConfig) => {
+      const viewport = getViewport(config);
+      board.height = viewport.CANVAS_HEIGHT;
+      board.width = viewport.CANVAS_WIDTH;
+      if (preview) {
+        preview.height = viewport.PREVIEW_HEIGHT;
+        preview.width = viewport.PREVIEW_WIDTH;
+      }
+      if (hold) {
+        hold.height = viewport.HOLD_HEIGHT;
+        hold.width = viewport.PREVIEW_WIDTH;
+      }
+      // resizing a canvas clears it
+      getDrawnFrame(board).frame = undefined;
+    },
+    renderBoard,
+    renderPreview: (state: State, theme: Theme) =>
+      preview &&
+      drawCubes(
+        preview,
+        PreviewCube,
+        theme.previewBackground,
+        undefined,
+        getPreviewCubes(state.nextBlocks, theme)
+      ),
+    renderHold: (state: State, theme: Theme) =>
+      hold &&
+      drawCubes(
+        hold,
+        PreviewCube,
+        theme.previewBackground,
+        undefined,
+        getHoldCubes(state.holdBlock, state.canHold, state.config, theme)
+      ),
+    renderScore: (state: State) =>
+      textElements && renderScorePanel(state, textElements),
+    // the overlays are drawn over the board, they change together with the frame of the board
+    renderOverlay: (state: State, theme: Theme) => {
+      const drawn = getDrawnFrame(board);
+      if (!drawn.overlayPending) {
+        return;
+      }
+      if (state.textPop) {
+        drawTextPop(board, theme, state.textPop);
+      }
+      if (state.paused) {
+        drawPauseOverlay(board, theme);
+      }
+      if (isGameOverBoxShown(state)) {
+        drawGameOverBox(board, theme, state.config, state.gameOverReason);
+      }
+      drawn.overlayPending = false;
+    },
+  };
+};
+
+/**
+ * Renders the board of a game state into an offscreen canvas, e.g. for the thumbnail of a replay.
+ * @param state - The game state to render.
+ * @param theme - The theme to draw with.
+ * @returns The rendered board as a png image.
+ */
+export const renderThumbnail = (state: State, theme: Theme): Promise<Blob> => {
+  const viewport = getViewport(state.config);
+  const canvas = new OffscreenCanvas(
+    viewport.CANVAS_WIDTH,
+    viewport.CANVAS_HEIGHT
+  );
+  const renderer = createCanvasRenderer({ board: canvas });
+  renderer.renderBoard(state, theme);
+  renderer.renderOverlay(state, theme);
+  return canvas.convertToBlob({ type: "image/png" });
+};
@@ -1,20 +1,426 @@
+import {
+  BotWeights,
+  CellType,
+  CubePattern,
+  GameConfig,
+  GameMode,
+  GameModeName,
+  GamepadBindings,
+  InputSettings,
+  KeyBindings,
+  Theme,
+  ThemeName,
+} from "./types";
+
 export const Viewport = {
-  CANVAS_WIDTH: 200,
-  CANVAS_HEIGHT: 400,
+  MAX_CANVAS_WIDTH: 400, // the canvas is sized to fit the grid with square cubes within these bounds
+  MAX_CANVAS_HEIGHT: 400,
   PREVIEW_WIDTH: 160,
   PREVIEW_HEIGHT: 80,
+  PREVIEW_SLOT_HEIGHT: 60, // height taken by each additional block in the next queue preview
 } as const;
 
 export const Constants = {
-  TICK_RATE_MS: 200, // default tick rate
-  TICK_RATE_DECREASE_MS: 100, // tick rate after DIFFICULTY_BARRIER_SCORE is reached
-  DIFFICULTY_BARRIER_SCORE: 200, // score at which the game gets harder
-  GRID_WIDTH: 10, // width of the grid
-  GRID_HEIGHT: 20, // height of the grid
-  SINGLE_ROW_FILL_SCORE: 100, // score for filling a single row
+  TICK_RATE_MS: 20, // rate of the game clock
+  GAME_OVER_DISPLAY_MS: 1500, // time the game over box is shown before the game restarts
+  LEADERBOARD_SIZE: 10, // number of games kept on the leaderboard
+} as const;
+
+export const Online = {
+  DEFAULT_PORT: 8080, // port the relay server listens on
+  COUNTDOWN_MS: 3000, // time from both players being ready to the start of an online match
+  SNAPSHOT_INTERVAL_MS: 100, // time between the boards a player sends to the opponent
+  ROOM_CODE_LENGTH: 4,
+  ROOM_CODE_LETTERS: "ABCDEFGHJKLMNPQRSTUVWXYZ", // letters of the room codes, without I and O which read like 1 and 0
+} as const;
+
+export const Bot = {
+  DEMO_MOVE_MS: 250, // time between the looks of the bot at the board in demo mode, a block is placed at the first look after it spawned
+  MAX_GAME_MS: 3600000, // game time after which a headless game of the bot is stopped, for modes that never end
+} as const;
+
+// the weights the bot scores boards with
+export const DefaultBotWeights: BotWeights = {
+  aggregateHeight: -0.51,
+  holes: -0.36,
+  bumpiness: -0.18,
+  linesCleared: 0.76,
+  wells: -0.1,
+};
+
+export const Animations = {
+  LOCK_FLASH_MS: 100, // time the cubes of a block flash after it locked
+  ROW_FLASH_MS: 50, // rows being cleared switch between the flash color and their own colors at this interval
+  TEXT_POP_MS: 1000, // time a level up or tetris text is shown
+} as const;
+
+// points awarded for each type of clear, multiplied by the current level
+export const Scores = {
+  SINGLE: 100,
+  DOUBLE: 300,
+  TRIPLE: 500,
+  TETRIS: 800,
+  "MINI T-SPIN": 100,
+  "MINI T-SPIN SINGLE": 200,
+  "MINI T-SPIN DOUBLE": 400,
+  "T-SPIN": 400,
+  "T-SPIN SINGLE": 800,
+  "T-SPIN DOUBLE": 1200,
+  "T-SPIN TRIPLE": 1600,
+  COMBO: 50, // per combo count, multiplied by the current level
+  SOFT_DROP: 1, // per row dropped
+  HARD_DROP: 2, // per row dropped
+  BACK_TO_BACK_MULTIPLIER: 1.5, // applied to a tetris or t-spin clear that follows another one
+} as const;
+
+// garbage rows sent to the opponent in versus for each type of clear
+export const Attacks = {
+  SINGLE: 0,
+  DOUBLE: 1,
+  TRIPLE: 2,
+  TETRIS: 4,
+  "MINI T-SPIN": 0,
+  "MINI T-SPIN SINGLE": 0,
+  "MINI T-SPIN DOUBLE": 1,
+  "T-SPIN": 0,
+  "T-SPIN SINGLE": 2,
+  "T-SPIN DOUBLE": 4,
+  "T-SPIN TRIPLE": 6,
+  BACK_TO_BACK: 1, // added to a tetris or t-spin clear that follows another one
+  COMBO: [0, 1, 1, 2, 2, 3, 3, 4, 4, 4, 5], // added by the combo count, longer combos get the last one
 } as const;
 
-export const Cube = {
-  WIDTH: Viewport.CANVAS_WIDTH / Constants.GRID_WIDTH,
-  HEIGHT: Viewport.CANVAS_HEIGHT / Constants.GRID_HEIGHT,
+// the guideline speed curve: level 1 is 1 row per second and from level 15 on blocks fall more than 1 row per tick
+const guidelineGravity = (level: number) =>
+  Math.pow(0.8 - (level - 1) * 0.007, level - 1) * 1000;
+
+export const DefaultConfig: GameConfig = {
+  width: 10,
+  height: 20,
+  bufferHeight: 2,
+  gravityCurve: Array.from({ length: 20 }, (_, index) =>
+    guidelineGravity(index + 1)
+  ),
+  lockDelay: 500,
+  lockResetLimit: 15,
+  lineClearDelay: 300,
+  entryDelay: 100,
+  softDropFactor: 20,
+  linesPerLevel: 10,
+  previewCount: 3,
+  scoring: Scores,
+  randomizer: "SevenBag",
+  mode: "Marathon",
+};
+
+// the game modes, selected at startup with the mode query parameter, e.g. ?mode=Sprint
+export const GameModes: Readonly<Record<GameModeName, GameMode>> = {
+  // play through 15 levels, topping out restarts the game
+  Marathon: {
+    maxLevel: 15,
+    topOut: true,
+    levelUp: true,
+    showResults: false,
+    ranking: "Score",
+  },
+  // clear 40 lines as fast as possible
+  Sprint: {
+    lineGoal: 40,
+    topOut: true,
+    levelUp: true,
+    showResults: true,
+    ranking: "FastestTime",
+  },
+  // score as much as possible in 2 minutes
+  Ultra: {
+    timeLimit: 120000,
+    topOut: true,
+    levelUp: true,
+    showResults: true,
+    ranking: "Score",
+  },
+  // no goal, no top out and no speed up
+  Zen: {
+    topOut: false,
+    levelUp: false,
+    showResults: false,
+    ranking: "Score",
+  },
+  // dig through 10 rows of garbage as fast as possible
+  Dig: {
+    garbageRows: 10,
+    topOut: true,
+    levelUp: true,
+    showResults: true,
+    ranking: "FastestTime",
+  },
+  // survive as long as possible while a garbage row is pushed up every 5 seconds
+  Survival: {
+    garbageInterval: 5000,
+    topOut: true,
+    levelUp: true,
+    showResults: true,
+    ranking: "LongestTime",
+  },
+  // two players side by side, line clears send garbage to the opponent and the last one standing wins
+  Versus: {
+    topOut: true,
+    levelUp: false,
+    sendsGarbage: true,
+    showResults: true,
+    ranking: "Score",
+  },
+};
+
+/**
+ * Checks if a name is the name of one of the game modes.
+ * @param name - The name to check, e.g. read from a query parameter.
+ * @returns Whether the name is a game mode name.
+ */
+export const isGameModeName = (name: unknown): name is GameModeName =>
+  typeof name === "string" && Object.keys(GameModes).includes(name);
+
+// board variants that can be selected at startup with the board query parameter, e.g. ?board=wide
+export const BoardPresets: { [name: string]: Partial<GameConfig> } = {
+  classic: {},
+  wide: { width: 20, height: 20 },
+  tiny: { width: 6, height: 12 },
+};
+
+/**
+ * Gets the size of a cube on the canvas for the given config, the largest square that fits the grid within the canvas bounds.
+ * @param config - The game config.
+ * @returns The width and height of a cube.
+ */
+export const getCube = (config: GameConfig) => {
+  const size = Math.min(
+    Viewport.MAX_CANVAS_WIDTH / config.width,
+    Viewport.MAX_CANVAS_HEIGHT / config.height
+  );
+  return { WIDTH: size, HEIGHT: size };
+};
+
+/**
+ * Gets the sizes of the canvas and preview for the given config.
+ * @param config - The game config.
+ * @returns The viewport sizes.
+ */
+export const getViewport = (config: GameConfig) => ({
+  CANVAS_WIDTH: getCube(config).WIDTH * config.width,
+  CANVAS_HEIGHT: getCube(config).HEIGHT * config.height,
+  PREVIEW_WIDTH: Viewport.PREVIEW_WIDTH,
+  HOLD_HEIGHT: Viewport.PREVIEW_HEIGHT,
+  // the preview is tall enough to stack every block of the next queue
+  PREVIEW_HEIGHT:
+    Viewport.PREVIEW_HEIGHT +
+    (config.previewCount - 1) * Viewport.PREVIEW_SLOT_HEIGHT,
+});
+
+// cubes in the preview and hold boxes have a fixed size
+export const PreviewCube = {
+  WIDTH: Viewport.PREVIEW_SLOT_HEIGHT / 3,
+  HEIGHT: Viewport.PREVIEW_SLOT_HEIGHT / 3,
+};
+
+// one mark per shape type, used by the themes that do not rely on color alone. garbage is told apart by having no mark
+const ShapePatterns: { [type in CellType]: CubePattern } = {
+  I: "HorizontalBar",
+  J: "VerticalBar",
+  L: "Cross",
+  O: "Ring",
+  S: "Slash",
+  T: "Dot",
+  Z: "Backslash",
+  Garbage: "None",
+};
+
+const NoPatterns: { [type in CellType]: CubePattern } = {
+  I: "None",
+  J: "None",
+  L: "None",
+  O: "None",
+  S: "None",
+  T: "None",
+  Z: "None",
+  Garbage: "None",
+};
+
+// the themes that can be selected at runtime, Classic uses the standard guideline colors of each tetromino
+export const Themes: { [name in ThemeName]: Theme } = {
+  Classic: {
+    pieces: {
+      I: "#00f0f0",
+      J: "#0000f0",
+      L: "#f0a000",
+      O: "#f0f000",
+      S: "#00f000",
+      T: "#a000f0",
+      Z: "#f00000",
+      Garbage: "#7a7a7a",
+    },
+    patterns: NoPatterns,
+    patternColor: "black",
+    outline: "black",
+    outlineWidth: 2,
+    ghostOpacity: 0.3,
+    background: "rgb(183, 151, 110)",
+    previewBackground: "rgb(218, 180, 131)",
+    gridLines: "rgba(0, 0, 0, 0.1)",
+    disabled: "grey",
+    gameOverBackground: "white",
+    gameOverText: "black",
+    flash: "white",
+    textPop: "white",
+  },
+  HighContrast: {
+    pieces: {
+      I: "#00ffff",
+      J: "#4d7dff",
+      L: "#ff9900",
+      O: "#ffff00",
+      S: "#00ff00",
+      T: "#ff00ff",
+      Z: "#ff3333",
+      Garbage: "#b0b0b0",
+    },
+    patterns: NoPatterns,
+    patternColor: "black",
+    outline: "white",
+    outlineWidth: 2,
+    ghostOpacity: 0.5,
+    background: "black",
+    previewBackground: "black",
+    gridLines: "rgba(255, 255, 255, 0.35)",
+    disabled: "#666666",
+    gameOverBackground: "black",
+    gameOverText: "white",
+    flash: "white",
+    textPop: "white",
+  },
+  // the Okabe-Ito palette, which stays distinguishable with the common kinds of color blindness, plus a mark per shape
+  Colorblind: {
+    pieces: {
+      I: "#56b4e9",
+      J: "#0072b2",
+      L: "#e69f00",
+      O: "#f0e442",
+      S: "#009e73",
+      T: "#cc79a7",
+      Z: "#d55e00",
+      Garbage: "#999999",
+    },
+    patterns: ShapePatterns,
+    patternColor: "black",
+    outline: "black",
+    outlineWidth: 3,
+    ghostOpacity: 0.3,
+    background: "rgb(183, 151, 110)",
+    previewBackground: "rgb(218, 180, 131)",
+    gridLines: "rgba(0, 0, 0, 0.1)",
+    disabled: "grey",
+    gameOverBackground: "white",
+    gameOverText: "black",
+    flash: "white",
+    textPop: "black",
+  },
+  Monochrome: {
+    pieces: {
+      I: "#303030",
+      J: "#303030",
+      L: "#303030",
+      O: "#303030",
+      S: "#303030",
+      T: "#303030",
+      Z: "#303030",
+      Garbage: "#8c8c8c",
+    },
+    patterns: ShapePatterns,
+    patternColor: "white",
+    outline: "white",
+    outlineWidth: 2,
+    ghostOpacity: 0.25,
+    background: "#e0e0e0",
+    previewBackground: "#f0f0f0",
+    gridLines: "rgba(0, 0, 0, 0.15)",
+    disabled: "#a0a0a0",
+    gameOverBackground: "#303030",
+    gameOverText: "white",
+    flash: "white",
+    textPop: "#303030",
+  },
 };
+
+/**
+ * Checks if a name is the name of one of the themes.
+ * @param name - The name to check, e.g. read from storage.
+ * @returns Whether the name is a theme name.
+ */
+export const isThemeName = (name: string | null): name is ThemeName =>
+  name !== null && Object.keys(Themes).includes(name);
+
+// arrows and WASD move the block, the letters of the original controls are kept next to the common guideline keys
+export const DefaultKeyBindings: KeyBindings = {
+  Left: ["KeyA", "ArrowLeft"],
+  Right: ["KeyD", "ArrowRight"],
+  SoftDrop: ["KeyS", "ArrowDown"],
+  HardDrop: ["Space"],
+  RotateClockwise: ["KeyE", "ArrowUp", "KeyX"],
+  RotateAntiClockwise: ["KeyQ", "KeyZ"],
+  Hold: ["KeyH", "KeyC"],
+  Pause: ["KeyP", "Escape"],
+  Restart: ["KeyR"],
+};
+
+// the keys of the two players of a versus match sharing the keyboard, either player can pause or restart the match
+export const VersusKeyBindings: readonly [KeyBindings, KeyBindings] = [
+  {
+    Left: ["KeyA"],
+    Right: ["KeyD"],
+    SoftDrop: ["KeyS"],
+    HardDrop: ["Space"],
+    RotateClockwise: ["KeyE"],
+    RotateAntiClockwise: ["KeyQ"],
+    Hold: ["KeyC"],
+    Pause: ["KeyP", "Escape"],
+    Restart: ["KeyR"],
+  },
+  {
+    Left: ["ArrowLeft"],
+    Right: ["ArrowRight"],
+    SoftDrop: ["ArrowDown"],
+    HardDrop: ["Enter"],
+    RotateClockwise: ["ArrowUp"],
+    RotateAntiClockwise: ["ControlRight"],
+    Hold: ["ShiftRight"],
+    Pause: [],
+    Restart: [],
+  },
+];
+
+export const DefaultInputSettings: InputSettings = {
+  keyBindings: DefaultKeyBindings,
+  das: 170,
+  arr: 50,
+  softDropFactor: DefaultConfig.softDropFactor,
+};
+
+// the buttons of the standard gamepad mapping: the d-pad moves, the face buttons rotate, the shoulder buttons hold, start pauses
+export const DefaultGamepadBindings: GamepadBindings = {
+  Left: [14],
+  Right: [15],
+  SoftDrop: [13],
+  HardDrop: [12],
+  RotateClockwise: [0, 3],
+  RotateAntiClockwise: [1, 2],
+  Hold: [4, 5],
+  Pause: [9],
+  Restart: [8],
+};
+
+export const TouchGestures = {
+  STEP_DISTANCE: 30, // distance in px a finger swipes to move the block a cell
+  TAP_DISTANCE: 10, // a touch that moves less than this distance in px is a tap
+  TAP_MS: 300, // a touch that lasts longer than this time in ms is not a tap
+  HARD_DROP_DISTANCE: 120, // a swipe down at least this long in px hard drops the block when it is quick enough
+  HARD_DROP_MS: 300,
+} as const;
@@ -0,0 +1,27 @@
+import { BehaviorSubject, Observable } from "rxjs";
+import { createInitialState, gameActions } from "./game";
+import { Game, GameConfig, GameEvent } from "./types";
+
+/**
+ * Creates a headless game: the game logic without any DOM or input wiring.
+ * Events are fed in by calling step or by connecting an observable of events, e.g. the keyboard and the game clock,
+ * which lets bots, server-side validation and tests drive real games in Node.
+ * @param config - The board dimensions and rules of the game.
+ * @param seed - The seed for the random block generation. The same seed and events always give the same game.
+ * @returns The game.
+ */
+export const createGame = (config: GameConfig, seed: number): Game => {
+  const state$ = new BehaviorSubject(createInitialState(config, seed));
+
+  const step = (event: GameEvent) => {
+    state$.next(gameActions[event](state$.getValue()));
+    return state$.getValue();
+  };
+
+  return {
+    step,
+    getState: () => state$.getValue(),
+    state$: state$.asObservable(),
+    connect: (event$: Observable<GameEvent>) => event$.subscribe(step),
+  };
+};
@@ -1,10 +1,21 @@
 import {
   clearFullRows,
+  countGarbageRows,
+  createBoard,
+  getFullRows,
+  placeBlock,
+} from "./board";
+import { Animations, Constants, DefaultConfig, GameModes } from "./constants";
+import {
+  dropBlock,
   generateBlock,
+  getGravity,
   hasBlockReachedBottom,
-  hasBlockReachedTop,
   hasObjectCollidedDown,
   holdCurrentBlock,
+  insertGarbage,
+  isBlockOut,
+  isLockOut,
   moveBlockDown,
   moveBlockLeft,
   moveBlockRight,
@@ -12,57 +23,253 @@ import {
   rotateBlockClockwise,
   setCurrentBlock,
 } from "./generics";
-
-import { Block, BlockPosition, GameEvent, State } from "./types";
+import { createRandomizer } from "./randomizer";
+import { detectTSpin, getAttack, scoreClear } from "./scoring";
+import { getCubes } from "./shapes";
+import {
+  Block,
+  BlockAction,
+  Board,
+  GameConfig,
+  GameEvent,
+  GameOverReason,
+  GameResult,
+  LockFlash,
+  State,
+  TextPop,
+} from "./types";
 
 /**
- * The initial state of the game.
+ * Creates the initial state of the game.
+ * @param config - The board dimensions and rules of the game.
+ * @param seed - The seed for the random block generation. The same seed always gives the same game.
+ * @returns The initial state of the game.
  */
-export const initialState: State = {
-  gameEnd: false,
-  oldBlocks: [],
-  score: 0,
-  nextBlock: undefined,
-  highScore: 0,
+export const createInitialState = (config: GameConfig, seed: number): State => {
+  // a mode that starts with garbage picks its holes before the first block
+  // the holes are picked from a random sequence of their own, so that the same seed gives the same blocks with or without garbage
+  const { newBoard, newSeed } = insertGarbage(
+    createBoard(config),
+    undefined,
+    GameModes[config.mode].garbageRows ?? 0,
+    ~seed,
+    config
+  );
+  return {
+    config,
+    paused: false,
+    gameEnd: false,
+    gameEndTimer: 0,
+    board: newBoard,
+    score: 0,
+    nextBlocks: [],
+    canHold: true,
+    highScore: 0,
+    level: 1,
+    lines: 0,
+    elapsed: 0,
+    combo: -1,
+    backToBack: false,
+    gravityTimer: 0,
+    lockTimer: 0,
+    lockResets: 0,
+    softDropping: false,
+    clearingRows: [],
+    clearTimer: 0,
+    // the entry delay has already passed so that the first block spawns on the first tick
+    entryTimer: config.entryDelay,
+    garbageTimer: 0,
+    pendingGarbage: 0,
+    sentGarbage: 0,
+    seed,
+    garbageSeed: newSeed,
+    randomizer: createRandomizer(config.randomizer),
+  };
 };
 
+/**
+ * The initial state of the game with the default config and a default seed.
+ */
+export const initialState: State = createInitialState(DefaultConfig, 0);
+
 /**
  * Updates the game state for each tick (game cycle).
+ * Ticks happen at a fixed rate, gravity, the lock delay, the line clear delay, the entry delay and the animations are timers that advance by one tick at a time.
  * See the functions it invokes for more details.
- * @param state - The current game state.
+ * @param gameState - The current game state.
  * @returns The new game state after the tick.
  */
-export const tick = (state: State): State => {
-  // This is needed because the game end status is set to true in the tick function after the game has been restarted and we need to reset that to stop rendering gameOver box
-  if (state.gameEnd) {
-    return resetGameEndStatus(state);
+export const tick = (gameState: State): State => {
+  // This is needed because the game end status is set to true in the tick function after the game has been restarted and we need to reset that to stop rendering gameOver box once it has been shown for a while
+  // In a mode with results, the game stays on the results screen until the player restarts
+  if (gameState.gameEnd) {
+    return GameModes[gameState.config.mode].showResults
+      ? gameState
+      : advanceGameEndTimer(gameState);
   }
 
-  // Clear full rows and get the new blocks and score
-  const { newBlocks, newScore } = clearFullRows(state.oldBlocks, state.score);
+  const state = advanceGarbageTimer(
+    advanceGame(
+      advanceAnimations({
+        ...gameState,
+        elapsed: gameState.elapsed + Constants.TICK_RATE_MS,
+      })
+    )
+  );
 
-  // Check if the game is over (a block has reached the top)
-  const gameOver = hasBlockReachedTop(newBlocks);
+  // The game ends once the goal of the mode has been reached or its time has run out
+  const modeEnd = state.gameEnd ? undefined : getModeEnd(state);
+  return modeEnd ? endGame(state, modeEnd) : state;
+};
 
-  // If the game is over, return the updated state with gameEnd set to true
-  if (gameOver) {
-    return restartGameAfterGameOver(state);
+/**
+ * Advances the game by a tick: removes cleared rows, spawns, locks or drops the current block.
+ * @param state - The current game state.
+ * @returns The new game state after the tick.
+ */
+const advanceGame = (state: State): State => {
+  // If full rows are being animated, they are removed once the line clear delay has passed
+  if (state.clearingRows.length > 0) {
+    return advanceClearTimer(state);
   }
 
-  // Check if the current block has reached the bottom or collided with another block
-  const hasLanded = hasBlockLanded(state.currentBlock, newBlocks);
+  // If there is no current block (at the start of the game or after a block locked), the next block spawns once the entry delay has passed
+  if (!state.currentBlock) {
+    return advanceEntryTimer(state);
+  }
 
-  // If the current block has landed, add it to oldBlocks and generate a new current block
-  if (hasLanded) {
-    return updateStateAfterLanding(state);
+  // If the current block has landed, it only locks after resting on the stack for the lock delay
+  if (hasBlockLanded(state.currentBlock, state.board, state.config)) {
+    return advanceLockTimer(state);
   } else {
-    // If the current block hasn't landed, try to move it down. we cannot simply call moveBlockDown as game needs to process other things when block is falling on its own.
-    return moveCurrentBlockDown(state, newBlocks, newScore);
+    // If the current block hasn't landed, gravity moves it down. we cannot simply call moveBlockDown as game needs to process other things when block is falling on its own.
+    return advanceGravityTimer(state);
   }
 };
 
 /** Utility functions to make tick function more readable. **/
 
+/**
+ * Checks if the game has come to the end of its mode.
+ * @param state - The current game state.
+ * @returns COMPLETE when the goal of the mode has been reached, TIME UP when its time has run out, undefined while the game goes on.
+ */
+const getModeEnd = (state: State): GameOverReason | undefined => {
+  const mode = GameModes[state.config.mode];
+  if (
+    (mode.lineGoal !== undefined && state.lines >= mode.lineGoal) ||
+    (mode.maxLevel !== undefined && state.level > mode.maxLevel) ||
+    (mode.garbageRows !== undefined && countGarbageRows(state.board) === 0)
+  ) {
+    return "COMPLETE";
+  }
+  return mode.timeLimit !== undefined && state.elapsed >= mode.timeLimit
+    ? "TIME UP"
+    : undefined;
+};
+
+/**
+ * Gets the result of a game that ended, for the results screen and the leaderboard.
+ * @param state - The game state when the game ended.
+ * @param reason - Why the game ended.
+ * @returns The result of the game.
+ */
+const getGameResult = (state: State, reason: GameOverReason): GameResult => {
+  const { maxLevel } = GameModes[state.config.mode];
+  return {
+    mode: state.config.mode,
+    complete: reason === "COMPLETE" || reason === "TIME UP",
+    score: state.score,
+    lines: state.lines,
+    // a marathon is complete once its last level has been played through, it does not reach the next one
+    level:
+      maxLevel !== undefined ? Math.min(state.level, maxLevel) : state.level,
+    duration: state.elapsed,
+  };
+};
+
+/**
+ * Ends the game. Depending on the mode, it stays on the results screen until the player restarts, or shows the game over box and restarts.
+ * @param state - The game state when the game ended.
+ * @param reason - Why the game ended.
+ * @returns The new game state after the game ended.
+ */
+const endGame = (state: State, reason: GameOverReason): State =>
+  GameModes[state.config.mode].showResults
+    ? {
+        ...state,
+        gameEnd: true,
+        gameOverReason: reason,
+        gameEndTimer: 0,
+        currentBlock: undefined,
+        softDropping: false,
+        lastResult: getGameResult(state, reason),
+      }
+    : restartGameAfterGameOver(state, reason);
+
+/**
+ * Pushes garbage rows up into the board from below. The game tops out if the stack or the falling block is pushed over the top.
+ * @param state - The current game state.
+ * @param count - The number of garbage rows.
+ * @param carryOn - Carries on with the game once the garbage is in without topping out, e.g. starts the entry delay of the next block.
+ * @returns The new game state after the garbage has been pushed up.
+ */
+const addGarbage = (
+  state: State,
+  count: number,
+  carryOn: (s: State) => State = (s) => s
+): State => {
+  const { newBoard, newCurrentBlock, newSeed, toppedOut } = insertGarbage(
+    state.board,
+    state.currentBlock,
+    count,
+    state.garbageSeed,
+    state.config
+  );
+  const pushedState: State = {
+    ...state,
+    board: newBoard,
+    currentBlock: newCurrentBlock,
+    garbageSeed: newSeed,
+  };
+  return toppedOut
+    ? topOut(pushedState, "TOP OUT", startEntryDelay)
+    : carryOn(pushedState);
+};
+
+/**
+ * Advances the garbage timer in a mode with garbage on a timer, and pushes a garbage row up once the interval has passed.
+ * The garbage waits while full rows are being cleared, so that the rows being animated stay where they are.
+ * @param state - The current game state.
+ * @returns The new game state after the garbage timer has advanced.
+ */
+const advanceGarbageTimer = (state: State): State => {
+  const { garbageInterval } = GameModes[state.config.mode];
+  if (garbageInterval === undefined || state.gameEnd) {
+    return state;
+  }
+  const garbageTimer = state.garbageTimer + Constants.TICK_RATE_MS;
+  return garbageTimer >= garbageInterval && state.clearingRows.length === 0
+    ? addGarbage({ ...state, garbageTimer: garbageTimer - garbageInterval }, 1)
+    : { ...state, garbageTimer };
+};
+
+/**
+ * Tops out: the stack has reached the top. The game is over, unless the mode has no top out, then the board is emptied and the game goes on.
+ * @param state - The game state when the stack reached the top.
+ * @param reason - How the stack reached the top.
+ * @param carryOn - Carries on with the game on the emptied board.
+ * @returns The new game state after topping out.
+ */
+const topOut = (
+  state: State,
+  reason: GameOverReason,
+  carryOn: (s: State) => State
+): State =>
+  GameModes[state.config.mode].topOut
+    ? endGame(state, reason)
+    : carryOn({ ...state, board: createBoard(state.config), clearingRows: [] });
+
 /**
  * Resets the game end status.
  * @param state - The current game state.
@@ -73,120 +280,465 @@ const resetGameEndStatus = (state: State): State => {
   return {
     ...state,
     gameEnd: false,
+    gameOverReason: undefined,
+    gameEndTimer: 0,
   };
 };
+
+/**
+ * Advances the timer of the game over box and resets the game end status once it has been shown for GAME_OVER_DISPLAY_MS.
+ * @param state - The current game state.
+ * @returns The new game state after the game end timer has advanced.
+ */
+const advanceGameEndTimer = (state: State): State => {
+  const gameEndTimer = state.gameEndTimer + Constants.TICK_RATE_MS;
+  return gameEndTimer >= Constants.GAME_OVER_DISPLAY_MS
+    ? resetGameEndStatus(state)
+    : { ...state, gameEndTimer };
+};
+/**
+ * Advances the timer of an animation.
+ * @param animation - The animation, undefined if it is not playing.
+ * @param duration - The time in ms the animation plays for.
+ * @returns The animation with its timer advanced, or undefined once it has played for its duration.
+ */
+const advanceAnimation = <T extends LockFlash | TextPop>(
+  animation: T | undefined,
+  duration: number
+): T | undefined =>
+  animation && animation.timer + Constants.TICK_RATE_MS < duration
+    ? { ...animation, timer: animation.timer + Constants.TICK_RATE_MS }
+    : undefined;
+
+/**
+ * Advances the lock flash and text pop animations. They are part of the state so that replays and headless games animate the same way.
+ * @param state - The current game state.
+ * @returns The new game state after the animations have advanced.
+ */
+const advanceAnimations = (state: State): State =>
+  state.lockFlash || state.textPop
+    ? {
+        ...state,
+        lockFlash: advanceAnimation(state.lockFlash, Animations.LOCK_FLASH_MS),
+        textPop: advanceAnimation(state.textPop, Animations.TEXT_POP_MS),
+      }
+    : state;
+
+/**
+ * Advances the line clear timer and removes the full rows once the line clear delay has passed.
+ * @param state - The current game state.
+ * @returns The new game state after the line clear timer has advanced.
+ */
+const advanceClearTimer = (state: State): State => {
+  const clearTimer = state.clearTimer + Constants.TICK_RATE_MS;
+  return clearTimer >= state.config.lineClearDelay
+    ? removeClearingRows(state)
+    : { ...state, clearTimer };
+};
+
+/**
+ * Removes the full rows from the board, the rows above them shift down, and starts the entry delay of the next block.
+ * @param state - The current game state.
+ * @returns The new game state after the rows have been removed.
+ */
+const removeClearingRows = (state: State): State =>
+  startEntryDelay({
+    ...state,
+    board: clearFullRows(state.board, state.config).newBoard,
+    clearingRows: [],
+    clearTimer: 0,
+  });
+
+/**
+ * Starts the entry delay before the next block spawns, or spawns it right away without an entry delay.
+ * @param state - The current game state.
+ * @returns The new game state after the entry delay has started.
+ */
+const startEntryDelay = (state: State): State =>
+  state.config.entryDelay > 0
+    ? { ...state, entryTimer: 0 }
+    : spawnNextBlock(state);
+
+/**
+ * Advances the entry delay timer and spawns the next block once the entry delay has passed.
+ * @param state - The current game state.
+ * @returns The new game state after the entry delay timer has advanced.
+ */
+const advanceEntryTimer = (state: State): State => {
+  const entryTimer = state.entryTimer + Constants.TICK_RATE_MS;
+  return entryTimer >= state.config.entryDelay
+    ? spawnNextBlock(state)
+    : { ...state, entryTimer };
+};
+
+/**
+ * Gets the text to pop up after a block locked: the new level on a level up, otherwise TETRIS on a tetris.
+ * @param state - The game state before the block locked.
+ * @param level - The level after the block locked.
+ * @param clearedRows - The number of rows the block cleared.
+ * @returns The text pop, or the text pop that is already playing if there is nothing new to show.
+ */
+const getTextPop = (
+  state: State,
+  level: number,
+  clearedRows: number
+): TextPop | undefined =>
+  level > state.level
+    ? { text: `LEVEL ${level}`, timer: 0 }
+    : clearedRows === 4
+    ? { text: "TETRIS", timer: 0 }
+    : state.textPop;
+
 /**
  * Checks if the current block has landed.
  * @param currentBlock - The current block.
- * @param oldBlocks - The old blocks.
+ * @param board - The board with the locked blocks.
+ * @param config - The game config.
  * @returns Whether the current block has landed.
  */
-const hasBlockLanded = (currentBlock: Block, oldBlocks: BlockPosition[]) =>
+const hasBlockLanded = (
+  currentBlock: Block,
+  board: Board,
+  config: GameConfig
+) =>
   !currentBlock ||
-  hasBlockReachedBottom(currentBlock) ||
-  hasObjectCollidedDown(currentBlock, oldBlocks);
+  hasBlockReachedBottom(getCubes(currentBlock), config) ||
+  hasObjectCollidedDown(getCubes(currentBlock), board);
 
 /**
- * Updates the game state after the current block has landed.
+ * Drops a new block one row as soon as it spawns if the row below it is free, as the guideline does.
+ * The block spawns in the hidden buffer zone, this brings its lowest row into the visible grid right away.
+ * @param block - The new block at the spawn location.
+ * @param board - The board with the locked blocks.
+ * @param config - The game config.
+ * @returns The block one row lower, or where it is if the row below is taken.
+ */
+const dropOnSpawn = (block: Block, board: Board, config: GameConfig): Block =>
+  moveBlockDown(block, board, config);
+
+/**
+ * Sets the next block as the current block and generates a new next block.
+ * The gravity and lock timers start over for the new block.
  * @param state - The current game state.
- * @returns The new game state after the current block has landed.
+ * @returns The new game state with the new current block, or the restarted game if the new block is blocked out.
  */
-const updateStateAfterLanding = (state: State): State => {
-  const { newBlocks, newScore } = clearFullRows(state.oldBlocks, state.score);
-  const { newCurrentBlock, newNextBlock } = generateBlock(state.nextBlock);
+const spawnNextBlock = (state: State): State => {
+  const { newCurrentBlock, newNextBlocks, newRandomizer, newSeed } =
+    generateBlock(state.nextBlocks, state.randomizer, state.seed, state.config);
+
+  // If the spawn location is already taken, the game is over
+  if (isBlockOut(newCurrentBlock, state.board, state.config)) {
+    return topOut(state, "BLOCK OUT", spawnNextBlock);
+  }
+
   return {
     ...state,
-    currentBlock: newCurrentBlock,
-    nextBlock: newNextBlock,
-    oldBlocks: [
-      ...newBlocks,
-      ...(state.currentBlock ? [state.currentBlock] : []),
-    ],
-    score: newScore,
+    currentBlock: dropOnSpawn(newCurrentBlock, state.board, state.config),
+    nextBlocks: newNextBlocks,
+    randomizer: newRandomizer,
+    seed: newSeed,
+    canHold: true,
+    gravityTimer: 0,
+    lockTimer: 0,
+    lockResets: 0,
   };
 };
 
 /**
- * Moves the current block down.
+ * Locks the current block into the board and scores it.
+ * Full rows stay on the board and are animated for the line clear delay before they are removed, then the next block spawns after the entry delay.
+ * In versus, the rows a line clear sends first cancel the garbage the opponent sent, and a block that clears nothing lets that garbage in.
  * @param state - The current game state.
- * @param newBlocks - The new blocks.
- * @param newScore - The new score.
- * @returns The new game state after the current block has moved down.
+ * @returns The new game state after the current block has been locked.
  */
-const moveCurrentBlockDown = (
-  state: State,
-  newBlocks: BlockPosition[],
-  newScore: number
-): State => {
-  const movedCurrentBlock = moveBlockDown(state.currentBlock, state.oldBlocks);
+const lockCurrentBlock = (state: State): State => {
+  // t-spins are detected before the block is locked into the board
+  const tSpin = state.currentBlock
+    ? detectTSpin(state.currentBlock, state.board, state.config)
+    : "None";
+  const cubes = state.currentBlock ? getCubes(state.currentBlock) : [];
+  const newBoard = state.currentBlock
+    ? placeBlock(state.board, cubes, state.currentBlock.shape)
+    : state.board;
+  const clearingRows = getFullRows(newBoard, state.config);
+  const scores = scoreClear(state, clearingRows.length, tSpin);
+  const attack =
+    GameModes[state.config.mode].sendsGarbage &&
+    clearingRows.length > 0 &&
+    scores.lastClear
+      ? getAttack(scores.lastClear)
+      : 0;
+  const cancelled = Math.min(attack, state.pendingGarbage);
+  const lockedState: State = {
+    ...state,
+    ...scores,
+    pendingGarbage: state.pendingGarbage - cancelled,
+    sentGarbage: state.sentGarbage + attack - cancelled,
+    board: newBoard,
+    currentBlock: undefined,
+    clearingRows,
+    clearTimer: 0,
+    lockFlash: { cubes, timer: 0 },
+    textPop: getTextPop(state, scores.level, clearingRows.length),
+  };
+
+  // If the block locked entirely above the visible grid, the game is over
+  if (
+    state.currentBlock &&
+    isLockOut(getCubes(state.currentBlock), state.config)
+  ) {
+    return topOut(lockedState, "LOCK OUT", startEntryDelay);
+  }
+
+  if (clearingRows.length === 0 && lockedState.pendingGarbage > 0) {
+    return addGarbage(
+      { ...lockedState, pendingGarbage: 0 },
+      lockedState.pendingGarbage,
+      startEntryDelay
+    );
+  }
+
+  return clearingRows.length > 0 && state.config.lineClearDelay > 0
+    ? lockedState
+    : removeClearingRows(lockedState);
+};
+
+/**
+ * Advances the lock timer of a landed block and locks the block once the lock delay has passed.
+ * @param state - The current game state.
+ * @returns The new game state after the lock timer has advanced.
+ */
+const advanceLockTimer = (state: State): State => {
+  const lockTimer = state.lockTimer + Constants.TICK_RATE_MS;
+  return lockTimer >= state.config.lockDelay
+    ? lockCurrentBlock(state)
+    : { ...state, lockTimer };
+};
+
+/**
+ * Advances the gravity timer of a falling block and moves the block down for every row's worth of time that has passed.
+ * At high levels a block can fall more than one row per tick.
+ * While soft dropping the block falls softDropFactor times faster and every row it falls awards soft drop points.
+ * @param state - The current game state.
+ * @returns The new game state after the gravity timer has advanced.
+ */
+const advanceGravityTimer = (state: State): State => {
+  const gravity =
+    getGravity(state.level, state.config) /
+    (state.softDropping ? state.config.softDropFactor : 1);
+  const elapsed = state.gravityTimer + Constants.TICK_RATE_MS;
+  const rows = Math.floor(elapsed / gravity);
+  const currentBlock = Array.from({ length: rows }).reduce<Block>(
+    (block) => moveBlockDown(block, state.board, state.config),
+    state.currentBlock
+  );
+  const droppedRows =
+    state.softDropping && currentBlock && state.currentBlock
+      ? currentBlock.position.y - state.currentBlock.position.y
+      : 0;
   return {
     ...state,
-    currentBlock: movedCurrentBlock,
-    oldBlocks: newBlocks,
-    score: newScore,
+    currentBlock,
+    score: state.score + droppedRows * state.config.scoring.SOFT_DROP,
+    gravityTimer: elapsed - rows * gravity,
+    lockTimer: 0,
   };
 };
 
+// the config and seed are carried over so that a restarted game continues the same random sequence
+// a game that is over keeps its result for the leaderboard, a game restarted by the player does not count
 const createGameRestarter =
   (isGameOver: boolean) =>
-    (gameState: State): State => {
-      return {
-        ...initialState,
-        highScore: Math.max(gameState.highScore, gameState.score),
-        gameEnd: isGameOver,
-      };
+  (gameState: State, gameOverReason?: GameOverReason): State => {
+    return {
+      ...createInitialState(gameState.config, gameState.seed),
+      highScore: Math.max(gameState.highScore, gameState.score),
+      gameEnd: isGameOver,
+      gameOverReason,
+      lastResult:
+        isGameOver && gameOverReason
+          ? getGameResult(gameState, gameOverReason)
+          : undefined,
     };
+  };
 
 const restartGameAfterGameOver = createGameRestarter(true);
 const restartGameByUserAction = createGameRestarter(false);
 
 /**
  * Creates a game action based on the given action logic.
- * This is essentially a wrapper for passing the current block and old blocks to the action logic.
+ * This is essentially a wrapper for passing the current block and board to the action logic.
  * @param action - The action to perform.
  * @returns The new game state after the action.
  */
-const createGameAction = (
-  action: (currentBlock: Block, oldBlocks: BlockPosition[]) => Block
-) => {
+const createGameAction = (action: BlockAction) => {
   return (s: State): State => {
-    const newBlock = action(s.currentBlock, s.oldBlocks);
-    return newBlock ? { ...s, currentBlock: newBlock } : s;
+    const newBlock = action(s.currentBlock, s.board, s.config);
+    return newBlock && newBlock !== s.currentBlock
+      ? { ...s, currentBlock: newBlock, ...resetLockTimer(s) }
+      : s;
   };
 };
 
+/**
+ * Resets the lock timer when a landed block is moved or rotated, so it can be slid under overhangs.
+ * The number of resets per block is capped so a block cannot be kept from locking forever.
+ * @param state - The current game state.
+ * @returns The lock timer fields to update, empty if the lock timer is not reset.
+ */
+const resetLockTimer = (
+  state: State
+): Partial<Pick<State, "lockTimer" | "lockResets">> =>
+  state.lockTimer > 0 && state.lockResets < state.config.lockResetLimit
+    ? { lockTimer: 0, lockResets: state.lockResets + 1 }
+    : {};
+
+/**
+ * Moves the current block down one row and awards soft drop points if it moved.
+ * @param state - The current game state.
+ * @returns The new game state after the soft drop.
+ */
+const softDropAction = (state: State): State => {
+  const movedState = createGameAction(moveBlockDown)(state);
+  return movedState === state
+    ? state
+    : {
+        ...movedState,
+        score: movedState.score + state.config.scoring.SOFT_DROP,
+      };
+};
+
+/**
+ * Starts soft dropping when the soft drop key is pressed: the block moves down a row right away and then falls faster until the key is released.
+ * @param state - The current game state.
+ * @returns The new game state after the soft drop has started.
+ */
+const softDropStartAction = (state: State): State => ({
+  ...softDropAction(state),
+  softDropping: true,
+  gravityTimer: 0,
+});
+
+/**
+ * Stops soft dropping when the soft drop key is released.
+ * @param state - The current game state.
+ * @returns The new game state after the soft drop has stopped.
+ */
+const softDropEndAction = (state: State): State =>
+  state.softDropping ? { ...state, softDropping: false } : state;
+
+/**
+ * Drops the current block as far down as it can go, awards hard drop points for the rows it dropped and locks it immediately.
+ * @param state - The current game state.
+ * @returns The new game state after the hard drop.
+ */
+const hardDropAction = (state: State): State => {
+  if (!state.currentBlock) {
+    return state;
+  }
+
+  const droppedBlock = dropBlock(state.currentBlock, state.board, state.config);
+  const droppedRows = droppedBlock
+    ? droppedBlock.position.y - state.currentBlock.position.y
+    : 0;
+  return lockCurrentBlock({
+    ...state,
+    currentBlock: droppedBlock,
+    score: state.score + droppedRows * state.config.scoring.HARD_DROP,
+  });
+};
+
 /**
  * Holds the current block and swaps it with the hold block (if any).
+ * Holding is only allowed once per block, until the block locks.
  * @param state - The current game state.
  * @returns The new game state after the hold action.
  */
 const holdAction = (state: State): State => {
+  if (!state.canHold || !state.currentBlock) {
+    return state;
+  }
+
   // set the current block to the hold block and generate a new hold block
   const { newCurrentBlock, newHoldBlock } = holdCurrentBlock(
     state.currentBlock,
-    state.holdBlock
+    state.holdBlock,
+    state.config
   );
   // set the next block to the current block and generate a new next block
-  const { newCurrentBlock: finalCurrentBlock, newNextBlock: newNextBlock } =
-    setCurrentBlock(newCurrentBlock, state.nextBlock);
+  const {
+    newCurrentBlock: finalCurrentBlock,
+    newNextBlocks,
+    newRandomizer,
+    newSeed,
+  } = setCurrentBlock(
+    newCurrentBlock,
+    state.nextBlocks,
+    state.randomizer,
+    state.seed,
+    state.config
+  );
+
+  // If the block swapped in cannot spawn, the game is over
+  if (
+    finalCurrentBlock &&
+    isBlockOut(finalCurrentBlock, state.board, state.config)
+  ) {
+    return topOut(state, "BLOCK OUT", holdAction);
+  }
+
   return {
     ...state,
-    currentBlock: finalCurrentBlock,
-    nextBlock: newNextBlock,
+    currentBlock: dropOnSpawn(finalCurrentBlock, state.board, state.config),
+    nextBlocks: newNextBlocks,
     holdBlock: newHoldBlock,
+    canHold: false,
+    randomizer: newRandomizer,
+    seed: newSeed,
+    gravityTimer: 0,
+    lockTimer: 0,
+    lockResets: 0,
   };
 };
 
+/**
+ * Pauses or resumes the game. Pausing a paused game or resuming a running one changes nothing,
+ * so that losing the focus while paused does not resume the game.
+ * @param paused - Whether the game should be paused.
+ * @returns The action that pauses or resumes the game.
+ */
+const createPauseAction =
+  (paused: boolean) =>
+  (state: State): State =>
+    state.paused === paused ? state : { ...state, paused };
+
+/**
+ * Wraps a game action so that it is ignored while the game is paused.
+ * @param action - The game action.
+ * @returns The game action that does nothing while paused.
+ */
+const unlessPaused =
+  (action: (s: State) => State) =>
+  (state: State): State =>
+    state.paused ? state : action(state);
+
 /**
  * The game actions that can be performed.
  */
 export const gameActions: { [key in GameEvent]: (s: State) => State } = {
-  Left: createGameAction(moveBlockLeft),
-  Right: createGameAction(moveBlockRight),
-  Down: createGameAction(moveBlockDown),
-  RotateClockwise: createGameAction(rotateBlockClockwise),
-  RotateAntiClockwise: createGameAction(rotateBlockAntiClockwise),
-  Hold: holdAction,
-  Tick: (s: State) => tick(s),
+  Left: unlessPaused(createGameAction(moveBlockLeft)),
+  Right: unlessPaused(createGameAction(moveBlockRight)),
+  Down: unlessPaused(softDropAction),
+  SoftDropStart: unlessPaused(softDropStartAction),
+  // releasing the soft drop key while paused still stops soft dropping
+  SoftDropEnd: softDropEndAction,
+  HardDrop: unlessPaused(hardDropAction),
+  RotateClockwise: unlessPaused(createGameAction(rotateBlockClockwise)),
+  RotateAntiClockwise: unlessPaused(createGameAction(rotateBlockAntiClockwise)),
+  Hold: unlessPaused(holdAction),
+  Tick: unlessPaused(tick),
+  Pause: createPauseAction(true),
+  Resume: createPauseAction(false),
+  TogglePause: (s: State) => createPauseAction(!s.paused)(s),
   Restart: (s: State) => restartGameByUserAction(s),
 };
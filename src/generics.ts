@@ -1,39 +1,128 @@
-import { Constants } from "./constants";
-import { generateRandomBlock } from "./shapes";
+import { addGarbageRows, isCellFilled } from "./board";
+import { nextShape } from "./randomizer";
+import { createSpawnPiece, getCubes } from "./shapes";
+import { getKicks, rotateOrientation } from "./srs";
+import { randomInt } from "./util";
 import {
   Block,
   BlockAction,
   BlockPosition,
+  Board,
   BoundaryCheck,
   CollisionCheck,
   CubePosition,
+  GameConfig,
   MoveLogic,
+  Piece,
   Position,
-  RotateLogic,
+  Random,
+  RandomizerState,
+  Rotation,
+  ShapeType,
 } from "./types";
 
+/**
+ * Gets the height of the whole grid, the visible rows plus the hidden buffer zone above them.
+ * @param config - The game config.
+ * @returns The height of the grid.
+ */
+export const getGridHeight = (config: GameConfig): number =>
+  config.height + config.bufferHeight;
+
+/**
+ * Generates a block of the next shape type given by the piece generator, at the spawn location.
+ * @param randomizer - The current state of the piece generator.
+ * @param seed - The current seed.
+ * @param config - The game config.
+ * @returns The new block, the new state of the piece generator and the next seed.
+ */
+const generateNextBlock = (
+  randomizer: RandomizerState,
+  seed: number,
+  config: GameConfig
+): { block: Piece; randomizer: RandomizerState; seed: number } => {
+  const {
+    shape,
+    randomizer: newRandomizer,
+    seed: newSeed,
+  } = nextShape(randomizer, seed);
+  return {
+    block: createSpawnPiece(shape, config),
+    randomizer: newRandomizer,
+    seed: newSeed,
+  };
+};
+
+/**
+ * Fills the queue of next blocks with blocks from the piece generator until it holds previewCount blocks.
+ * @param nextBlocks - The current queue of next blocks.
+ * @param randomizer - The current state of the piece generator.
+ * @param seed - The current seed.
+ * @param config - The game config.
+ * @returns The filled queue, the new state of the piece generator and the next seed.
+ */
+const fillQueue = (
+  nextBlocks: ReadonlyArray<Piece>,
+  randomizer: RandomizerState,
+  seed: number,
+  config: GameConfig
+): {
+  blocks: ReadonlyArray<Piece>;
+  randomizer: RandomizerState;
+  seed: number;
+} => {
+  if (nextBlocks.length >= config.previewCount) {
+    return { blocks: nextBlocks, randomizer, seed };
+  }
+
+  const next = generateNextBlock(randomizer, seed, config);
+  return fillQueue(
+    [...nextBlocks, next.block],
+    next.randomizer,
+    next.seed,
+    config
+  );
+};
+
 export const generateBlock = (
-  nextBlock: Block
-): { newCurrentBlock: BlockPosition; newNextBlock: BlockPosition } => {
-  // If nextBlock is defined, use it as the new current block, otherwise generate a new random block
-  const newCurrentBlock = nextBlock ? nextBlock : generateRandomBlock();
-  // Generate a new random block for the next block
-  const newNextBlock = generateRandomBlock();
-
-  return { newCurrentBlock, newNextBlock };
+  nextBlocks: ReadonlyArray<Piece>,
+  randomizer: RandomizerState,
+  seed: number,
+  config: GameConfig
+): {
+  newCurrentBlock: Piece;
+  newNextBlocks: ReadonlyArray<Piece>;
+  newRandomizer: RandomizerState;
+  newSeed: number;
+} => {
+  // The queue is filled first so that there is a block to take even when it is empty at the start of the game
+  const filled = fillQueue(nextBlocks, randomizer, seed, config);
+  // The first block in the queue becomes the new current block and the queue is refilled
+  const [newCurrentBlock, ...rest] = filled.blocks;
+  const refilled = fillQueue(rest, filled.randomizer, filled.seed, config);
+
+  return {
+    newCurrentBlock,
+    newNextBlocks: refilled.blocks,
+    newRandomizer: refilled.randomizer,
+    newSeed: refilled.seed,
+  };
 };
 
 /* Move related functions */
 
 /**
- * Applies the given move logic function to the block's position and returns the new block position.
- * @param movelogic - The move logic function to apply to the block's position.
- * @returns A new block position after applying the move logic function.
+ * Applies the given move logic function to the piece's position and returns the moved piece.
+ * @param movelogic - The move logic function to apply to the piece's position.
+ * @returns A new piece after applying the move logic function.
  */
 const move =
   (movelogic: MoveLogic) =>
-  (block: BlockPosition): BlockPosition =>
-    block.map(movelogic);
+  (piece: Piece): Piece => ({
+    ...piece,
+    position: movelogic(piece.position),
+    kick: undefined,
+  });
 
 const moveDownLogic: MoveLogic = (pos: Position<number>) => ({
   ...pos,
@@ -54,16 +143,18 @@ const moveRightLogic: MoveLogic = (pos: Position<number>) => ({
  * Creates a function that moves a block in a specified direction based on the provided move logic and boundary check functions.
  * @param moveLogic A function that takes the current position of the block and returns the new position after moving in a specified direction.
  * @param boundaryCheck A function that takes the current position of the block and returns true if the block has reached the boundary, false otherwise.
- * @returns A function that takes the current block, an array of old blocks, and a boolean indicating if the game has ended, and returns the new position of the block after moving in the specified direction.
+ * @returns A function that takes the current block, the board and the game config, and returns the new position of the block after moving in the specified direction.
  */
 const createMoveBlockAction =
   (moveLogic: MoveLogic, boundaryCheck: BoundaryCheck): BlockAction =>
-  (currentBlock: Block, oldBlocks: BlockPosition[]): Block => {
-    // If there is no current block, the game has ended, the block has reached the boundary, or the block has collided with any old block, it returns the current block without moving it
+  (currentBlock: Block, board: Board, config: GameConfig): Block => {
+    // If there is no current block, the game has ended, the block has reached the boundary, or the block has collided with a locked block, it returns the current block without moving it
     if (
       !currentBlock ||
-      currentBlock.some(boundaryCheck) ||
-      hasObjectCollided(moveLogic, currentBlock, oldBlocks)
+      getCubes(currentBlock).some((cubePos) =>
+        boundaryCheck(cubePos, config)
+      ) ||
+      hasObjectCollided(moveLogic, getCubes(currentBlock), board)
     ) {
       return currentBlock;
     }
@@ -74,7 +165,7 @@ const createMoveBlockAction =
 
 export const moveBlockDown: BlockAction = createMoveBlockAction(
   moveDownLogic,
-  (cubePos) => cubePos.y + 1 >= Constants.GRID_HEIGHT
+  (cubePos, config) => cubePos.y + 1 >= getGridHeight(config)
 );
 
 export const moveBlockLeft: BlockAction = createMoveBlockAction(
@@ -84,260 +175,276 @@ export const moveBlockLeft: BlockAction = createMoveBlockAction(
 
 export const moveBlockRight: BlockAction = createMoveBlockAction(
   moveRightLogic,
-  (cubePos) => cubePos.x + 1 >= Constants.GRID_WIDTH
+  (cubePos, config) => cubePos.x + 1 >= config.width
 );
 
-/* Rotation related functions */
-
 /**
- * Generic function to rotates a block of cubes around its center using the provided rotate logic.
- * @param object The block of cubes to rotate.
- * @param rotateLogic The function that defines how each cube should be rotated around the center.
- * @returns The rotated block of cubes.
+ * Moves a block down as far as it can go. This is where a hard drop lands and where the ghost block is drawn.
+ * @param currentBlock - The block to drop.
+ * @param board - The board with the locked blocks.
+ * @param config - The game config.
+ * @returns The block at its lowest reachable position.
  */
-const rotate = (
-  object: BlockPosition,
-  rotateLogic: (pos: CubePosition, center: CubePosition) => CubePosition
-): BlockPosition => {
-  const center = object.reduce(
-    (sum, pos) => ({ x: sum.x + pos.x, y: sum.y + pos.y }),
-    { x: 0, y: 0 }
-  );
-  const centerX = Math.floor(center.x / object.length);
-  const centerY = Math.floor(center.y / object.length);
-
-  // Adjust the center to ensure it is in the middle of the block
-  const adjustedCenter = {
-    x: centerX % 2 === 0 ? centerX : centerX + 1,
-    y: centerY % 2 === 1 ? centerY : centerY + 1,
-  };
-
-  // Rotate each cube in the block around the adjusted center using the provided rotateLogic
-  return object.map((pos) => rotateLogic(pos, adjustedCenter));
+export const dropBlock: BlockAction = (
+  currentBlock: Block,
+  board: Board,
+  config: GameConfig
+): Block => {
+  const movedBlock = moveBlockDown(currentBlock, board, config);
+  // moveBlockDown returns the same block when it cannot move any further
+  return movedBlock === currentBlock
+    ? currentBlock
+    : dropBlock(movedBlock, board, config);
 };
 
-const rotateClockwiseLogic = (pos: CubePosition, center: CubePosition) => ({
-  x: center.x - pos.y + center.y,
-  y: center.y + pos.x - center.x,
-});
+/* Rotation related functions */
 
-// defines logic for rotating a block anticlockwise
-const rotateAntiClockwiseLogic = (pos: CubePosition, center: CubePosition) => ({
-  x: center.x + pos.y - center.y,
-  y: center.y - pos.x + center.x,
-});
+/**
+ * Checks if a cube is outside the game grid.
+ * @param cubePos - The position of the cube.
+ * @param config - The game config.
+ * @returns Whether the cube is outside the game grid.
+ */
+const isOutOfBounds: BoundaryCheck = (cubePos, config) =>
+  cubePos.x < 0 ||
+  cubePos.x >= config.width ||
+  cubePos.y < 0 ||
+  cubePos.y >= getGridHeight(config);
 
 /**
- * Creates a function that rotates the current block using the provided rotate logic.
- * @param rotateLogic A function that takes the current block and returns the rotated block.
- * @returns A function that takes the current block, an array of old blocks, and a boolean indicating if the game has ended, and returns the rotated block.
+ * Checks if a cell of the grid is taken, either by a locked block or because it is outside the grid.
+ * @param cubePos - The position of the cell.
+ * @param board - The board with the locked blocks.
+ * @param config - The game config.
+ * @returns Whether the cell is occupied.
  */
+export const isCellOccupied = (
+  cubePos: CubePosition,
+  board: Board,
+  config: GameConfig
+): boolean =>
+  isOutOfBounds(cubePos, config) || hasObjectOverlapped([cubePos], board);
 
+/**
+ * Checks if a piece can be placed where it is: inside the grid and not overlapping any locked block.
+ * @param piece - The piece to check.
+ * @param board - The board with the locked blocks.
+ * @param config - The game config.
+ * @returns Whether the piece fits.
+ */
+export const doesBlockFit = (
+  piece: Piece,
+  board: Board,
+  config: GameConfig
+): boolean =>
+  !getCubes(piece).some((cubePos) => isOutOfBounds(cubePos, config)) &&
+  !hasObjectOverlapped(getCubes(piece), board);
+
+/**
+ * Creates a function that rotates the current block following the Super Rotation System.
+ * The block is rotated in its bounding box and then each wall kick offset is tried in order, the first one where the block fits is used.
+ * @param rotation The direction of the rotation.
+ * @returns A function that takes the current block, the board and the game config, and returns the rotated block, or the current block if it cannot be rotated.
+ */
 const createRotateBlockAction =
-  (rotateLogic: RotateLogic): BlockAction =>
-  (currentBlock: Block, oldBlocks: BlockPosition[]): Block => {
-    // If there is no current block or the game has ended, it returns the current block without rotating it
+  (rotation: Rotation): BlockAction =>
+  (currentBlock: Block, board: Board, config: GameConfig): Block => {
+    // If there is no current block, it returns the current block without rotating it
     if (!currentBlock) {
       return currentBlock;
     }
 
-    const rotatedBlock = rotateLogic(currentBlock);
-
-    // Check if the rotated block is still within the grid and doesn't hit any old blocks
-    if (
-      rotatedBlock.some(
-        (cubePos) =>
-          cubePos.x < 0 ||
-          cubePos.x >= Constants.GRID_WIDTH ||
-          cubePos.y < 0 ||
-          cubePos.y >= Constants.GRID_HEIGHT
-      ) ||
-      hasObjectCollidedDown(rotatedBlock, oldBlocks) ||
-      hasObjectCollidedLeft(rotatedBlock, oldBlocks) ||
-      hasObjectCollidedRight(rotatedBlock, oldBlocks)
-    ) {
-      // If not, it returns the current block without rotating it
-      return currentBlock;
-    }
+    const orientation = rotateOrientation(currentBlock.orientation, rotation);
 
-    // If the rotated block is valid, it returns the rotated block
-    return rotatedBlock;
+    const kickedBlock = getKicks(
+      currentBlock.shape,
+      currentBlock.orientation,
+      orientation
+    )
+      .map(
+        (kick, index): Piece => ({
+          ...currentBlock,
+          orientation,
+          position: {
+            x: currentBlock.position.x + kick.x,
+            y: currentBlock.position.y + kick.y,
+          },
+          kick: index,
+        })
+      )
+      .find((rotatedBlock) => doesBlockFit(rotatedBlock, board, config));
+
+    // If none of the kicks give a valid position, it returns the current block without rotating it
+    return kickedBlock ?? currentBlock;
   };
 
-export const rotateBlockClockwise: BlockAction = createRotateBlockAction(
-  (block) => rotate(block, rotateClockwiseLogic)
-);
+export const rotateBlockClockwise: BlockAction =
+  createRotateBlockAction("RotateClockwise");
 
 export const rotateBlockAntiClockwise: BlockAction = createRotateBlockAction(
-  (block) => rotate(block, rotateAntiClockwiseLogic)
+  "RotateAntiClockwise"
 );
 
 /* Collision check related functions */
 
 /**
- * Returns a function that checks if a block has collided with another block after applying the move logic.
+ * Returns a function that checks if a block has collided with the locked blocks of the board after applying the move logic.
+ * Every cube is a constant time lookup in the board, so the check does not get slower as more blocks are locked.
  * @param moveLogic A function that takes in a position and returns a new position after applying the move logic.
- * @returns A function that takes in an block position and an array of old block positions, and returns a boolean indicating if the block has collided with any of the old blocks.
+ * @returns A function that takes in an block position and the board, and returns a boolean indicating if the block has collided with any of the locked blocks.
  */
 export const hasObjectCollided = (
   moveLogic: MoveLogic,
   block: BlockPosition,
-  oldBlocks: BlockPosition[]
-): boolean => {
-  // Define a function that checks if a cube has collided with another cube after applying the move logic
-  const hitCheck = (oldPos: CubePosition, pos: CubePosition) => {
-    const newPos = moveLogic(pos);
-    return oldPos.x === newPos.x && oldPos.y === newPos.y;
-  };
-
-  // Check if an object has collided with another object after applying the move logic
-  return oldBlocks.some((oldObject) =>
-    oldObject.some((oldPos) => block.some((pos) => hitCheck(oldPos, pos)))
-  );
-};
-
-export const hasObjectCollidedDown: CollisionCheck = (block, oldObjects) =>
-  hasObjectCollided(moveDownLogic, block, oldObjects);
-
-const hasObjectCollidedLeft: CollisionCheck = (block, oldObjects) =>
-  hasObjectCollided(moveLeftLogic, block, oldObjects);
-
-const hasObjectCollidedRight: CollisionCheck = (block, oldObjects) =>
-  hasObjectCollided(moveRightLogic, block, oldObjects);
-
-/* Clearing full rows related functions */
-
-export const clearFullRows = (
-  oldBlocks: BlockPosition[],
-  score: number
-): { newBlocks: BlockPosition[]; newScore: number } => {
-  const rows = calculateRowsInGrid(oldBlocks);
-  const fullRows = findFullRows(rows);
-
-  if (fullRows.length === 0) {
-    return { newBlocks: oldBlocks, newScore: score }; // no full rows, return the blocks and score as is
-  }
-
-  const newScore = score + fullRows.length * Constants.SINGLE_ROW_FILL_SCORE; // increase score by 100 for each full row
-
-  const remainingBlocks = removeCubesInFullRows(oldBlocks, fullRows);
-  const nonEmptyBlocks = removeEmptyBlocks(remainingBlocks);
-
-  const newBlocks = dropBlocksAboveClearedRows(nonEmptyBlocks, fullRows); // drop blocks above cleared rows
-
-  return { newBlocks, newScore };
-};
-
-export const dropBlocksAboveClearedRows = (
-  oldBlocks: BlockPosition[],
-  clearedRows: number[]
-): BlockPosition[] =>
-  oldBlocks.map((block) =>
-    block.map((cube) => {
-      // Calculate the number of cleared rows below the cube
-      const rowsClearedBelow = clearedRows.filter((row) => row > cube.y).length;
-      // Drop the cube by the number of cleared rows below it
-      return rowsClearedBelow > 0
-        ? { x: cube.x, y: cube.y + rowsClearedBelow }
-        : cube;
-    })
-  );
-
-export const calculateRowsInGrid = (
-  oldBlocks: ReadonlyArray<BlockPosition>
-): ReadonlyArray<ReadonlyArray<CubePosition>> => {
-  return Array.from({ length: Constants.GRID_HEIGHT }, (_, index) =>
-    // reduce the oldBlocks array to an array of cubes that belong to the current row
-    oldBlocks.reduce(
-      (row, block) => [
-        ...row, // spread the previous row
-        ...block.filter((cube) => cube.y === index), // filter the cubes that belong to the current row and spread them
-      ],
-      [] as ReadonlyArray<CubePosition> // initialize the row as an empty array
-    )
-  );
-};
+  board: Board
+): boolean => block.some((pos) => isCellFilled(board, moveLogic(pos)));
 
-export const findFullRows = (
-  rows: ReadonlyArray<ReadonlyArray<CubePosition>>
-): number[] => {
-  return rows
-    // map each row to its index if it is full, otherwise map it to -1
-    .map((row, index) => (row.length === Constants.GRID_WIDTH ? index : -1))
-    // filter out the rows that are not full
-    .filter((index) => index !== -1);
-};
+export const hasObjectCollidedDown: CollisionCheck = (block, board) =>
+  hasObjectCollided(moveDownLogic, block, board);
 
-export const removeCubesInFullRows = (
-  oldBlocks: BlockPosition[],
-  fullRows: number[]
-): BlockPosition[] => {
-  // filter out the cubes in the full rows
-  return oldBlocks.map((block) =>
-    block.filter((cubePos) => !fullRows.includes(cubePos.y))
-  );
-};
-
-// Removes the empty blocks from the board with length 0. It is used to clear off empty BlockPosition arrays
-export const removeEmptyBlocks = (blocks: BlockPosition[]): BlockPosition[] => {
-  return blocks.filter((block) => block.length > 0);
-};
+// checks if a block overlaps a locked block where it is, without moving it
+const hasObjectOverlapped: CollisionCheck = (block, board) =>
+  hasObjectCollided((pos) => pos, block, board);
 
 /* Hold block related functions */
 
-// stores the current block in its current position for later use
+// stores the shape of the current block for later use. the held shape comes back in spawn orientation at the spawn location
 export const holdCurrentBlock = (
   currentBlock: Block,
-  holdBlock: Block
+  holdBlock: ShapeType | undefined,
+  config: GameConfig
 ): {
   newCurrentBlock: Block;
-  newHoldBlock: Block;
+  newHoldBlock: ShapeType | undefined;
 } => {
   if (!currentBlock) {
     // If there is no current block, return the current block and hold block as is
     return { newCurrentBlock: currentBlock, newHoldBlock: holdBlock };
   } else if (!holdBlock) {
-    // If there is no hold block, set the current block as the hold block and return undefined for the current block
-    return { newCurrentBlock: undefined, newHoldBlock: currentBlock };
+    // If there is no hold block, hold the shape of the current block and return undefined for the current block
+    return { newCurrentBlock: undefined, newHoldBlock: currentBlock.shape };
   } else {
-    // If there is a hold block, swap the current block and the hold block
-    return { newCurrentBlock: holdBlock, newHoldBlock: currentBlock };
+    // If there is a hold block, respawn the held shape and hold the shape of the current block
+    return {
+      newCurrentBlock: createSpawnPiece(holdBlock, config),
+      newHoldBlock: currentBlock.shape,
+    };
   }
 };
 
-// sets the current block to the next block and generates a new next block
+// sets the current block to the first block in the queue and refills the queue
 export const setCurrentBlock = (
   currentBlock: Block,
-  nextBlock: Block
+  nextBlocks: ReadonlyArray<Piece>,
+  randomizer: RandomizerState,
+  seed: number,
+  config: GameConfig
 ): {
   newCurrentBlock: Block;
-  newNextBlock: Block;
+  newNextBlocks: ReadonlyArray<Piece>;
+  newRandomizer: RandomizerState;
+  newSeed: number;
 } => {
   if (currentBlock) {
-    // If there is a current block, return the current block and next block as is
-    return { newCurrentBlock: currentBlock, newNextBlock: nextBlock };
+    // If there is a current block, return the current block, queue, randomizer and seed as is
+    return {
+      newCurrentBlock: currentBlock,
+      newNextBlocks: nextBlocks,
+      newRandomizer: randomizer,
+      newSeed: seed,
+    };
   } else {
-    // If there is no current block, set the next block as the current block and generate a new next block
-    const { newCurrentBlock, newNextBlock } = generateBlock(nextBlock);
-    return { newCurrentBlock, newNextBlock };
+    // If there is no current block, take the first block in the queue as the current block and refill the queue
+    return generateBlock(nextBlocks, randomizer, seed, config);
   }
 };
 
-/* Misc functions */
+/* Garbage */
+
+/**
+ * Picks the column of the hole of each garbage row with the seeded randomness, so the same seed always gives the same garbage.
+ * @param count - The number of garbage rows.
+ * @param seed - The current seed.
+ * @param config - The game config.
+ * @returns The column of the hole of each row and the next seed.
+ */
+const pickGarbageHoles = (
+  count: number,
+  seed: number,
+  config: GameConfig
+): Random<number[]> =>
+  Array.from({ length: count }).reduce<Random<number[]>>(
+    (picked) => {
+      const hole = randomInt(0, config.width - 1, picked.seed);
+      return { value: [...picked.value, hole.value], seed: hole.seed };
+    },
+    { value: [], seed }
+  );
 
-export const hasBlockReachedTop = (oldBlocks: BlockPosition[]): boolean => {
-  // check if any cube in any block has reached the top of the board
-  return oldBlocks.some((block) => block.some((cubePos) => cubePos.y === 0));
+/**
+ * Pushes garbage rows up into the board from below, each with one hole at a random column.
+ * The stack shifts up with them, and the falling block is pushed up as far as it needs to stay clear of the stack.
+ * @param board - The board with the locked blocks.
+ * @param currentBlock - The falling block, undefined between blocks.
+ * @param count - The number of garbage rows.
+ * @param seed - The current seed.
+ * @param config - The game config.
+ * @returns The new board, the new current block and the next seed, and whether the stack or the block was pushed out over the top of the grid.
+ */
+export const insertGarbage = (
+  board: Board,
+  currentBlock: Block,
+  count: number,
+  seed: number,
+  config: GameConfig
+): {
+  newBoard: Board;
+  newCurrentBlock: Block;
+  newSeed: number;
+  toppedOut: boolean;
+} => {
+  const holes = pickGarbageHoles(count, seed, config);
+  const { newBoard, overflow } = addGarbageRows(board, holes.value, config);
+  // the block moves up by the fewest rows that clear it of the stack, at most the rows pushed up
+  const newCurrentBlock =
+    currentBlock &&
+    Array.from({ length: count + 1 }, (_, rows) => ({
+      ...currentBlock,
+      position: {
+        ...currentBlock.position,
+        y: currentBlock.position.y - rows,
+      },
+    })).find((piece) => doesBlockFit(piece, newBoard, config));
+  return {
+    newBoard,
+    newCurrentBlock,
+    newSeed: holes.seed,
+    toppedOut: overflow || (currentBlock !== undefined && !newCurrentBlock),
+  };
 };
 
-export const hasBlockReachedBottom = (blockPos: BlockPosition): boolean =>
-  blockPos.some((cubePos) => cubePos.y >= Constants.GRID_HEIGHT - 1);
+/* Misc functions */
 
-// gets tick rate based on the current score. It is possible to introduce other forms of difficulty by changing this function
-// Example could be increasing tick rate by a set value for every multiple of 200 points
-export const getTickRate = (score: number) => {
-  if (score >= Constants.DIFFICULTY_BARRIER_SCORE) {
-    return Constants.TICK_RATE_DECREASE_MS;
-  }
-  return Constants.TICK_RATE_MS;
-};
+// checks for a lock out: a block locked entirely inside the hidden buffer zone above the visible grid
+export const isLockOut = (
+  blockPos: BlockPosition,
+  config: GameConfig
+): boolean => blockPos.every((cubePos) => cubePos.y < config.bufferHeight);
+
+// checks for a block out: a new block cannot spawn because its spawn location is already taken
+export const isBlockOut = (
+  block: Piece,
+  board: Board,
+  config: GameConfig
+): boolean => !doesBlockFit(block, board, config);
+
+export const hasBlockReachedBottom = (
+  blockPos: BlockPosition,
+  config: GameConfig
+): boolean =>
+  blockPos.some((cubePos) => cubePos.y >= getGridHeight(config) - 1);
+
+// gets the time in ms it takes a block to fall one row at the given level from the gravity curve of the config
+// levels past the end of the curve keep the speed of the last level in the curve
+export const getGravity = (level: number, config: GameConfig) =>
+  config.gravityCurve[Math.min(level, config.gravityCurve.length) - 1];
@@ -0,0 +1,258 @@
+import { Constants, GameModes, isGameModeName } from "./constants";
+import {
+  GameModeName,
+  GameResult,
+  HighScores,
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardStorage,
+  Ranking,
+} from "./types";
+
+type RankedGame = Pick<LeaderboardEntry, "mode" | "score" | "duration">;
+
+// how each ranking compares two games and which games it counts
+const Rankings: {
+  [ranking in Ranking]: Readonly<{
+    compare: (a: RankedGame, b: RankedGame) => number;
+    counts: (result: GameResult) => boolean;
+  }>;
+} = {
+  Score: {
+    compare: (a, b) => b.score - a.score,
+    counts: (result) => result.score > 0,
+  },
+  FastestTime: {
+    compare: (a, b) => a.duration - b.duration,
+    counts: (result) => result.complete,
+  },
+  LongestTime: {
+    compare: (a, b) => b.duration - a.duration,
+    counts: (result) => result.duration > 0,
+  },
+};
+
+/**
+ * Compares two games of the same mode by the ranking of the mode, e.g. the highest score or the fastest time comes first.
+ * @param a - A game.
+ * @param b - Another game.
+ * @returns A negative number if a ranks above b, a positive number if b ranks above a, 0 if they rank the same.
+ */
+const compareEntries = (a: RankedGame, b: RankedGame): number =>
+  Rankings[GameModes[a.mode].ranking].compare(a, b);
+
+/**
+ * Gets the games of a mode on the leaderboard, best first. Every mode has a leaderboard of its own.
+ * @param leaderboard - The leaderboard.
+ * @param mode - The game mode.
+ * @returns The games of the mode.
+ */
+export const getModeLeaderboard = (
+  leaderboard: Leaderboard,
+  mode: GameModeName
+): Leaderboard => leaderboard.filter((entry) => entry.mode === mode);
+
+/**
+ * Checks if a game would make it onto the leaderboard of its mode.
+ * A game ranked by the fastest time only counts if it reached the goal of its mode.
+ * @param leaderboard - The leaderboard.
+ * @param result - The result of the game.
+ * @param size - The number of games kept on the leaderboard of each mode.
+ * @returns Whether the game would be added.
+ */
+export const isLeaderboardResult = (
+  leaderboard: Leaderboard,
+  result: GameResult,
+  size: number = Constants.LEADERBOARD_SIZE
+): boolean => {
+  const modeLeaderboard = getModeLeaderboard(leaderboard, result.mode);
+  return (
+    Rankings[GameModes[result.mode].ranking].counts(result) &&
+    (modeLeaderboard.length < size ||
+      compareEntries(result, modeLeaderboard[modeLeaderboard.length - 1]) < 0)
+  );
+};
+
+/**
+ * Creates the leaderboard entry of a game.
+ * @param result - The result of the game.
+ * @param name - The name of the player.
+ * @param date - When the game ended.
+ * @returns The leaderboard entry.
+ */
+export const createLeaderboardEntry = (
+  result: GameResult,
+  name: string,
+  date: Date
+): LeaderboardEntry => ({
+  name,
+  score: result.score,
+  lines: result.lines,
+  level: result.level,
+  duration: result.duration,
+  mode: result.mode,
+  date: date.toISOString(),
+});
+
+// checks if two entries are the same game, e.g. when a leaderboard is imported twice
+const isSameEntry = (a: LeaderboardEntry, b: LeaderboardEntry): boolean =>
+  a.name === b.name && a.score === b.score && a.date === b.date;
+
+/**
+ * Adds games to the leaderboard, keeping the best games of each mode, best first.
+ * A game that ranks the same as one already on the leaderboard is placed below it, and games that are already on the leaderboard are not added again.
+ * @param leaderboard - The leaderboard.
+ * @param entries - The games to add.
+ * @param size - The number of games kept on the leaderboard of each mode.
+ * @returns The new leaderboard.
+ */
+export const addLeaderboardEntries = (
+  leaderboard: Leaderboard,
+  entries: ReadonlyArray<LeaderboardEntry>,
+  size: number = Constants.LEADERBOARD_SIZE
+): Leaderboard => {
+  const merged = entries.reduce<Leaderboard>(
+    (board, entry) =>
+      board.some((other) => isSameEntry(other, entry))
+        ? board
+        : [...board, entry],
+    leaderboard
+  );
+  return (Object.keys(GameModes) as GameModeName[]).flatMap((mode) =>
+    getModeLeaderboard(merged, mode)
+      // the sort is stable, so games that rank the same stay in the order they were added
+      .slice()
+      .sort(compareEntries)
+      .slice(0, size)
+  );
+};
+
+/**
+ * Gets the best score of a mode on the leaderboard.
+ * @param leaderboard - The leaderboard.
+ * @param mode - The game mode.
+ * @returns The highest score, 0 if the mode has no games on the leaderboard.
+ */
+export const getBestScore = (
+  leaderboard: Leaderboard,
+  mode: GameModeName
+): number =>
+  Math.max(
+    0,
+    ...getModeLeaderboard(leaderboard, mode).map(({ score }) => score)
+  );
+
+/**
+ * Adds the score of a game to the high scores, if it beats the high score of its mode.
+ * @param highScores - The high scores.
+ * @param result - The result of the game that ended.
+ * @returns The high scores with the score of the game.
+ */
+export const addHighScore = (
+  highScores: HighScores,
+  result: GameResult
+): HighScores =>
+  result.score > (highScores[result.mode] ?? 0)
+    ? { ...highScores, [result.mode]: result.score }
+    : highScores;
+
+/**
+ * Parses the high scores kept in a storage.
+ * High scores saved by another version of the game that cannot be read are started over, unknown modes are dropped.
+ * @param json - The JSON text of the high scores, null if none were kept.
+ * @returns The high scores.
+ */
+export const parseHighScores = (json: string | null): HighScores => {
+  try {
+    const highScores: unknown = JSON.parse(json ?? "{}");
+    return typeof highScores === "object" && highScores !== null
+      ? Object.fromEntries(
+          Object.entries(highScores).filter(
+            ([mode, score]) =>
+              isGameModeName(mode) &&
+              typeof score === "number" &&
+              Number.isFinite(score) &&
+              score > 0
+          )
+        )
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+// checks if a value read from a file or the storage is a leaderboard entry
+const isLeaderboardEntry = (entry: unknown): entry is LeaderboardEntry => {
+  const e = entry as Partial<LeaderboardEntry> | null;
+  return (
+    typeof e === "object" &&
+    e !== null &&
+    typeof e.name === "string" &&
+    isGameModeName(e.mode) &&
+    typeof e.date === "string" &&
+    [e.score, e.lines, e.level, e.duration].every(
+      (value) => typeof value === "number" && Number.isFinite(value)
+    )
+  );
+};
+
+/**
+ * Parses a leaderboard, e.g. an exported leaderboard file.
+ * @param json - The JSON text of the leaderboard.
+ * @returns The leaderboard, sorted with the best games of each mode first.
+ * @throws Error if the text is not a leaderboard.
+ */
+export const parseLeaderboard = (json: string): Leaderboard => {
+  const leaderboard: unknown = JSON.parse(json);
+  if (!Array.isArray(leaderboard) || !leaderboard.every(isLeaderboardEntry)) {
+    throw new Error("Not a leaderboard file");
+  }
+  return addLeaderboardEntries([], leaderboard, leaderboard.length);
+};
+
+/**
+ * Serializes a leaderboard to export it or remember it in a storage.
+ * @param leaderboard - The leaderboard.
+ * @returns The JSON text of the leaderboard.
+ */
+export const serializeLeaderboard = (leaderboard: Leaderboard): string =>
+  JSON.stringify(leaderboard);
+
+/**
+ * Creates a leaderboard storage that remembers the leaderboard in a web storage, e.g. the local storage.
+ * A leaderboard that was saved by another version of the game and cannot be read is started over.
+ * @param storage - The web storage.
+ * @param key - The key the leaderboard is stored under.
+ * @returns The leaderboard storage.
+ */
+export const createWebLeaderboardStorage = (
+  storage: Storage,
+  key: string
+): LeaderboardStorage => ({
+  load: () => {
+    try {
+      return parseLeaderboard(storage.getItem(key) ?? "[]");
+    } catch {
+      return [];
+    }
+  },
+  save: (leaderboard: Leaderboard) =>
+    storage.setItem(key, serializeLeaderboard(leaderboard)),
+});
+
+/**
+ * Creates a leaderboard storage that only keeps the leaderboard in memory, e.g. for tests or a headless game.
+ * @param leaderboard - The leaderboard to start with.
+ * @returns The leaderboard storage.
+ */
+export const createMemoryLeaderboardStorage = (
+  leaderboard: Leaderboard = []
+): LeaderboardStorage => {
+  let saved = leaderboard;
+  return {
+    load: () => saved,
+    save: (newLeaderboard: Leaderboard) => {
+      saved = newLeaderboard;
+    },
+  };
+};
@@ -1,35 +1,906 @@
 import "./style.css";
 
-import { Viewport } from "./constants";
-import { game$, score$ } from "./observables";
-import { State } from "./types";
-import { render } from "./view";
+import {
+  BoardPresets,
+  Bot,
+  DefaultConfig,
+  DefaultInputSettings,
+  isGameModeName,
+  isThemeName,
+  Online,
+  Themes,
+  VersusKeyBindings,
+} from "./constants";
+import { createCanvasRenderer, renderThumbnail } from "./canvasView";
+import { createGame } from "./engine";
+import { createInitialState } from "./game";
+import {
+  EMPTY,
+  Observable,
+  combineLatest,
+  concat,
+  from,
+  fromEvent,
+  merge,
+  of,
+} from "rxjs";
+import {
+  catchError,
+  distinctUntilChanged,
+  filter,
+  map,
+  scan,
+  shareReplay,
+  skip,
+  startWith,
+  switchMap,
+  take,
+  tap,
+  withLatestFrom,
+} from "rxjs/operators";
+import {
+  createActionEvent$,
+  createBotEvent$,
+  createGameEvent$,
+  createGamepadAction$,
+  createOnline$,
+  createOnlineConnection,
+  createPlayback$,
+  createPlaybackControl$,
+  createRecording$,
+  createPausableTick$,
+  createTick$,
+  createTouchAction$,
+  createUserAction$,
+  createVersusEvent$,
+  readGamepadSnapshot,
+  readTouchPoint,
+} from "./observables";
+import {
+  addHighScore,
+  addLeaderboardEntries,
+  createWebLeaderboardStorage,
+  createLeaderboardEntry,
+  getBestScore,
+  isLeaderboardResult,
+  parseHighScores,
+  parseLeaderboard,
+  serializeLeaderboard,
+} from "./leaderboard";
+import { getOpponentState } from "./online";
+import { isRandomizerType } from "./randomizer";
+import { parseReplay, serializeReplay } from "./replay";
+import {
+  bindKey,
+  clearKeys,
+  isInputAction,
+  parseInputSettings,
+  serializeInputSettings,
+} from "./settings";
+import {
+  ActionInput,
+  ClientMessage,
+  GameConfig,
+  GameEvent,
+  GameModeName,
+  GameResult,
+  InputSettings,
+  Leaderboard,
+  LeaderboardElements,
+  LeaderboardStorage,
+  PlaybackElements,
+  PlayerIndex,
+  Renderer,
+  Replay,
+  ResultsElements,
+  SettingsElements,
+  SvgRendererElements,
+  TextElements,
+  Theme,
+  ThemeName,
+  VersusEvent,
+} from "./types";
+import {
+  createSvgRenderer,
+  formatDuration,
+  renderGame,
+  renderGarbageMeter,
+  renderLeaderboard,
+  renderOnlineStatus,
+  renderResultsPanel,
+  renderSettingsPanel,
+  renderVersusResult,
+} from "./view";
+import { createVersusMatch } from "./versus";
+
+// keys the selected theme, the input settings, the leaderboard and the last name entered are remembered under in the local storage
+const THEME_STORAGE_KEY = "theme";
+const INPUT_SETTINGS_STORAGE_KEY = "inputSettings";
+const LEADERBOARD_STORAGE_KEY = "leaderboard";
+const PLAYER_NAME_STORAGE_KEY = "playerName";
+const HIGH_SCORES_STORAGE_KEY = "highScores";
+
+// the value of the mode query parameter for online versus, which is played in the Versus mode on a board of each machine
+const ONLINE_MODE = "Online";
+
+/**
+ * Downloads a file.
+ * @param blob - The contents of the file.
+ * @param fileName - The name the file is saved as.
+ */
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+/**
+ * Downloads a JSON file.
+ * @param json - The JSON text of the file.
+ * @param fileName - The name the file is saved as.
+ */
+const downloadJson = (json: string, fileName: string) =>
+  downloadBlob(new Blob([json], { type: "application/json" }), fileName);
+
+/**
+ * Downloads a replay as a JSON replay file.
+ * @param replay - The replay to download.
+ */
+const downloadReplay = (replay: Replay) =>
+  downloadJson(serializeReplay(replay), `replay-${replay.seed}.json`);
+
+/**
+ * Reads the JSON text of the file picked in a file input, or nothing if no file was picked.
+ * @param input - The file input.
+ * @returns An observable of the text of the file.
+ */
+const readFile$ = (input: HTMLInputElement): Observable<string> =>
+  input.files && input.files.length > 0 ? from(input.files[0].text()) : EMPTY;
+
+/**
+ * Replaces an svg element of the page by a canvas element with the same id.
+ * @param svg - The svg element to replace.
+ * @returns The canvas element.
+ */
+const replaceWithCanvas = (svg: Element): HTMLCanvasElement => {
+  const canvas = document.createElement("canvas");
+  canvas.id = svg.id;
+  svg.replaceWith(canvas);
+  return canvas;
+};
+
+/**
+ * Creates the renderer of a board and its preview and hold boxes.
+ * @param elements - The svg elements of the board, the preview and hold boxes, and the info panel.
+ * @param canvas - Whether to draw with 2d canvases that replace the svg elements instead of with svg elements.
+ * @returns The renderer.
+ */
+const createRenderer = (
+  { board, preview, hold, textElements }: Required<SvgRendererElements>,
+  canvas: boolean
+): Renderer =>
+  canvas
+    ? createCanvasRenderer({
+        board: replaceWithCanvas(board),
+        preview: replaceWithCanvas(preview),
+        hold: replaceWithCanvas(hold),
+        textElements,
+      })
+    : createSvgRenderer({ board, preview, hold, textElements });
+
+/**
+ * Gets the elements of an info panel.
+ * @param suffix - The suffix of the ids of the elements, e.g. "2" for the info panel of the second player in versus.
+ * @returns The elements of the info panel.
+ */
+const getTextElements = (suffix: string): TextElements => ({
+  score: document.getElementById(`scoreText${suffix}`) as HTMLElement,
+  highScore: document.getElementById(`highScoreText${suffix}`) as HTMLElement,
+  level: document.getElementById(`levelText${suffix}`) as HTMLElement,
+  lines: document.getElementById(`linesText${suffix}`) as HTMLElement,
+  lastClear: document.getElementById(`clearText${suffix}`) as HTMLElement,
+  mode: document.getElementById(`modeText${suffix}`) as HTMLElement,
+  timer: document.getElementById(`timerText${suffix}`) as HTMLElement,
+});
+
+/**
+ * Creates the presses and releases of the on-screen buttons, which are held like keys.
+ * @param buttons - The on-screen buttons, with the action they are bound to in their data-action attribute.
+ * @returns An observable of the presses and releases of the actions.
+ */
+const createTouchButtonInput$ = (
+  buttons: ReadonlyArray<HTMLElement>
+): Observable<ActionInput> =>
+  merge(
+    ...buttons.map((button) =>
+      merge(
+        fromEvent(button, "pointerdown").pipe(map(() => true)),
+        // the button is released when the finger is lifted or slides off it
+        merge(
+          fromEvent(button, "pointerup"),
+          fromEvent(button, "pointerleave"),
+          fromEvent(button, "pointercancel")
+        ).pipe(map(() => false))
+      ).pipe(
+        map((pressed) => ({ action: button.dataset.action, pressed })),
+        filter((input): input is ActionInput => isInputAction(input.action))
+      )
+    )
+  );
+
+/**
+ * Creates the observable of the theme, picked in the theme select and remembered between visits.
+ * A theme saved by another version of the game that no longer exists falls back to the Classic theme.
+ * @param themeSelect - The theme select, it is set to the theme remembered.
+ * @returns An observable of the selected theme.
+ */
+export const createTheme$ = (
+  themeSelect: HTMLSelectElement
+): Observable<Theme> => {
+  const savedTheme = localStorage.getItem(THEME_STORAGE_KEY);
+  const initialTheme: ThemeName = isThemeName(savedTheme)
+    ? savedTheme
+    : "Classic";
+  themeSelect.value = initialTheme;
+  return fromEvent(themeSelect, "change").pipe(
+    // the select gives the focus back so that the game keys do not pick another theme
+    tap(() => themeSelect.blur()),
+    map(() => themeSelect.value),
+    filter(isThemeName),
+    tap((name) => localStorage.setItem(THEME_STORAGE_KEY, name)),
+    startWith(initialTheme),
+    map((name) => Themes[name]),
+    shareReplay(1)
+  );
+};
+
+/**
+ * Creates the observable of the high score of a mode, remembered between visits.
+ * Every game that ends counts, whether or not it makes it onto the leaderboard.
+ * @param result$ - The results of the games that ended.
+ * @param mode - The mode of the game played.
+ * @returns An observable of the high score of the mode.
+ */
+export const createHighScore$ = (
+  result$: Observable<GameResult>,
+  mode: GameModeName
+): Observable<number> => {
+  const savedHighScores = parseHighScores(
+    localStorage.getItem(HIGH_SCORES_STORAGE_KEY)
+  );
+  return result$.pipe(
+    scan(addHighScore, savedHighScores),
+    tap((highScores) =>
+      localStorage.setItem(HIGH_SCORES_STORAGE_KEY, JSON.stringify(highScores))
+    ),
+    startWith(savedHighScores),
+    map((highScores) => highScores[mode] ?? 0),
+    distinctUntilChanged(),
+    shareReplay(1)
+  );
+};
+
+// a change made in the settings panel
+type SettingsChange = (settings: InputSettings) => InputSettings;
+
+/**
+ * Creates the observable of the input settings, changed in the settings panel and remembered between visits.
+ * @param elements - The elements of the settings panel.
+ * @param reset - The button that resets the settings to the defaults.
+ * @param keyDown$ - The keydown events, the next key pressed after clicking an Add key button is bound to its action.
+ * @returns An observable of the input settings.
+ */
+const createInputSettings$ = (
+  elements: SettingsElements,
+  reset: HTMLElement,
+  keyDown$: Observable<KeyboardEvent>
+): Observable<InputSettings> => {
+  const initialSettings = parseInputSettings(
+    localStorage.getItem(INPUT_SETTINGS_STORAGE_KEY)
+  );
+
+  const bind$ = merge(
+    ...elements.bindButtons.map((button) =>
+      fromEvent(button, "click").pipe(
+        // the button gives the focus back so that the key pressed next does not press it again
+        tap(() => {
+          button.blur();
+          button.textContent = "Press a key";
+        }),
+        map(() => button.dataset.action),
+        filter(isInputAction),
+        switchMap((action) =>
+          keyDown$.pipe(
+            take(1),
+            map(
+              (e): SettingsChange =>
+                (s) =>
+                  bindKey(s, action, e.code)
+            )
+          )
+        )
+      )
+    )
+  );
+
+  const clear$ = merge(
+    ...elements.clearButtons.map((button) =>
+      fromEvent(button, "click").pipe(
+        tap(() => button.blur()),
+        map(() => button.dataset.action),
+        filter(isInputAction),
+        map(
+          (action): SettingsChange =>
+            (s) =>
+              clearKeys(s, action)
+        )
+      )
+    )
+  );
+
+  // the times and the factor are only taken when they are valid numbers
+  const numberInput$ = (
+    input: HTMLInputElement,
+    min: number,
+    change: (value: number) => SettingsChange
+  ) =>
+    fromEvent(input, "change").pipe(
+      map(() => Number(input.value)),
+      filter((value) => Number.isFinite(value) && value >= min),
+      map(change)
+    );
+
+  return merge(
+    bind$,
+    clear$,
+    numberInput$(elements.das, 0, (das) => (s) => ({ ...s, das })),
+    numberInput$(elements.arr, 0, (arr) => (s) => ({ ...s, arr })),
+    numberInput$(elements.softDropFactor, 1, (softDropFactor) => (s) => ({
+      ...s,
+      softDropFactor,
+    })),
+    fromEvent(reset, "click").pipe(
+      map((): SettingsChange => () => DefaultInputSettings)
+    )
+  ).pipe(
+    scan((settings, change) => change(settings), initialSettings),
+    startWith(initialSettings),
+    tap((settings) => {
+      localStorage.setItem(
+        INPUT_SETTINGS_STORAGE_KEY,
+        serializeInputSettings(settings)
+      );
+      // invalid numbers typed in are replaced by the settings in use
+      renderSettingsPanel(settings, elements);
+    }),
+    shareReplay(1)
+  );
+};
+
+// a change of the leaderboard
+type LeaderboardChange = (leaderboard: Leaderboard) => Leaderboard;
+
+/**
+ * Asks for the name of the player of a game that makes it onto the leaderboard.
+ * @param result - The result of the game.
+ * @returns The name entered, undefined if the player cancelled.
+ */
+const promptPlayerName = (result: GameResult): string | undefined => {
+  // the prompt takes the focus away from the page, so the next game is paused until the player resumes it
+  const name = prompt(
+    `New ${result.mode} record: ${result.score} points in ${formatDuration(
+      result.duration,
+      true
+    )}! Enter your name for the leaderboard:`,
+    localStorage.getItem(PLAYER_NAME_STORAGE_KEY) ?? ""
+  )?.trim();
+  if (name) {
+    localStorage.setItem(PLAYER_NAME_STORAGE_KEY, name);
+  }
+  return name || undefined;
+};
+
+/**
+ * Creates the observable of the leaderboard, which is kept in a storage between visits.
+ * A game that makes it onto the leaderboard asks for the name of the player, and an imported leaderboard is merged with the one kept.
+ * @param storage - The storage of the leaderboard.
+ * @param elements - The elements of the leaderboard panel.
+ * @param result$ - The results of the games that ended.
+ * @param mode - The mode of the game played, whose leaderboard is shown.
+ * @returns An observable of the leaderboard.
+ */
+const createLeaderboard$ = (
+  storage: LeaderboardStorage,
+  elements: LeaderboardElements,
+  result$: Observable<GameResult>,
+  mode: GameModeName
+): Observable<Leaderboard> => {
+  const initialLeaderboard = storage.load();
+
+  // the player is asked for their name before the leaderboard changes, the change itself only adds their entry
+  // the storage always holds the leaderboard as of the last change, so it tells whether a result makes it onto it
+  const entry$ = result$.pipe(
+    filter((result) => isLeaderboardResult(storage.load(), result)),
+    map((result) => ({ result, name: promptPlayerName(result) })),
+    filter(
+      (named): named is { result: GameResult; name: string } =>
+        named.name !== undefined
+    ),
+    map(({ result, name }) => createLeaderboardEntry(result, name, new Date())),
+    map(
+      (entry): LeaderboardChange =>
+        (leaderboard) =>
+          addLeaderboardEntries(leaderboard, [entry])
+    )
+  );
+
+  // invalid files are reported and ignored
+  const import$ = fromEvent(elements.importInput, "change").pipe(
+    switchMap(() =>
+      readFile$(elements.importInput).pipe(
+        map(parseLeaderboard),
+        catchError((error: Error) => {
+          alert(error.message);
+          return EMPTY;
+        })
+      )
+    ),
+    map(
+      (imported): LeaderboardChange =>
+        (leaderboard) =>
+          addLeaderboardEntries(leaderboard, imported)
+    )
+  );
+
+  return merge(entry$, import$).pipe(
+    scan((leaderboard, change) => change(leaderboard), initialLeaderboard),
+    tap((leaderboard) => storage.save(leaderboard)),
+    startWith(initialLeaderboard),
+    tap((leaderboard) => renderLeaderboard(leaderboard, mode, elements.table)),
+    shareReplay(1)
+  );
+};
+
+/**
+ * Runs a versus match of two players sharing the keyboard, each on a board of their own with the keys of VersusKeyBindings.
+ * The rest of the page is for the game of one player: the replays, the leaderboard, the gamepad and the touch controls are not used.
+ * @param config - The game config of both players.
+ * @param seed - The seed of both players, who get the same sequence of blocks.
+ * @param renderers - The renderers of the boards of both players.
+ * @param meters - The garbage meters of both players.
+ * @param theme$ - The selected theme.
+ * @param inputSettings$ - The input settings, their key bindings are replaced by the keys of each player.
+ * @param keyDown$ - The keydown events.
+ * @param keyUp$ - The keyup events.
+ * @param autoPause$ - The pauses when the page is hidden or loses the focus.
+ */
+const runVersus = (
+  config: GameConfig,
+  seed: number,
+  renderers: readonly [Renderer, Renderer],
+  meters: readonly [HTMLMeterElement, HTMLMeterElement],
+  theme$: Observable<Theme>,
+  inputSettings$: Observable<InputSettings>,
+  keyDown$: Observable<KeyboardEvent>,
+  keyUp$: Observable<KeyboardEvent>,
+  autoPause$: Observable<GameEvent>
+) => {
+  const versusResult = document.getElementById("versusResult") as HTMLElement;
+
+  const match = createVersusMatch(config, seed);
+  // the game clock of both players stops while the match is paused
+  const tick$ = createPausableTick$(
+    match.state$.pipe(map((s) => s.players[0].paused))
+  );
+  const playerAction$ = (player: PlayerIndex) =>
+    inputSettings$.pipe(
+      switchMap((settings) =>
+        createUserAction$(keyDown$, keyUp$, {
+          ...settings,
+          keyBindings: VersusKeyBindings[player],
+        })
+      )
+    );
+  const versusEvent$ = merge(
+    createVersusEvent$([playerAction$(0), playerAction$(1)], tick$),
+    autoPause$.pipe(map((event): VersusEvent => ({ event })))
+  );
+
+  combineLatest([match.state$, theme$]).subscribe(([versus, theme]) => {
+    versus.players.forEach((s, player) => {
+      renderGame(renderers[player], s, theme);
+      renderGarbageMeter(s, meters[player]);
+    });
+    renderVersusResult(versus, versusResult);
+  });
+  match.connect(versusEvent$);
+};
+
+/**
+ * Runs an online versus match against a player on another machine, through the relay server at the given address.
+ * The lobby panel creates or joins a room by its code and tells the relay server that the player is ready,
+ * then the player plays on the first board and the last board the opponent sent is shown on the second one.
+ * @param config - The game config of the player.
+ * @param server - The WebSocket address of the relay server.
+ * @param renderers - The renderers of the board of the player and the board of the opponent.
+ * @param meters - The garbage meters of the player and the opponent.
+ * @param theme$ - The selected theme.
+ * @param inputSettings$ - The input settings of the player.
+ * @param keyDown$ - The keydown events.
+ * @param keyUp$ - The keyup events.
+ */
+const runOnline = (
+  config: GameConfig,
+  server: string,
+  renderers: readonly [Renderer, Renderer],
+  meters: readonly [HTMLMeterElement, HTMLMeterElement],
+  theme$: Observable<Theme>,
+  inputSettings$: Observable<InputSettings>,
+  keyDown$: Observable<KeyboardEvent>,
+  keyUp$: Observable<KeyboardEvent>
+) => {
+  const panel = document.getElementById("online") as HTMLElement;
+  const roomCode = document.getElementById("roomCode") as HTMLInputElement;
+  const status = document.getElementById("onlineStatus") as HTMLElement;
+  panel.hidden = false;
+
+  // the buttons give the focus back so that the game keys do not press them again
+  const command$ = (id: string, command: () => ClientMessage) => {
+    const button = document.getElementById(id) as HTMLElement;
+    return fromEvent(button, "click").pipe(
+      tap(() => button.blur()),
+      map(command)
+    );
+  };
+  const lobbyCommand$ = merge(
+    command$("createRoom", () => ({ type: "Create" })),
+    command$("joinRoom", () => ({ type: "Join", code: roomCode.value })),
+    command$("readyButton", () => ({ type: "Ready" }))
+  );
+  // the room code is typed without moving the blocks
+  const gameKeyDown$ = keyDown$.pipe(filter((e) => e.target !== roomCode));
+  const gameEvent$ = merge(
+    inputSettings$.pipe(
+      switchMap((settings) => createUserAction$(gameKeyDown$, keyUp$, settings))
+    ),
+    createTick$()
+  );
+  const online$ = createOnline$(
+    createOnlineConnection(new WebSocket(server)),
+    config,
+    lobbyCommand$,
+    gameEvent$
+  );
+
+  combineLatest([online$, theme$]).subscribe(([online, theme]) => {
+    // the boards are empty until the first match starts and until the opponent sends its board
+    const empty = createInitialState(online.config, 0);
+    [online.game ?? empty, getOpponentState(online) ?? empty].forEach(
+      (s, player) => {
+        renderGame(renderers[player], s, theme);
+        renderGarbageMeter(s, meters[player]);
+      }
+    );
+    renderOnlineStatus(online, status);
+  });
+};
 
 /**
  * Main function to initialize and run the game.
  */
 export function main() {
-  // Get references to the SVG elements and score elements in the DOM
+  // Get references to the SVG elements and info panel elements in the DOM
   const svg = document.querySelector("#svgCanvas") as SVGGraphicsElement &
     HTMLElement;
   const preview = document.querySelector("#svgPreview") as SVGGraphicsElement &
     HTMLElement;
-  const scoreElement = document.getElementById("scoreText") as HTMLElement;
-  const highScoreElement = document.getElementById(
-    "highScoreText"
+  const hold = document.querySelector("#svgHold") as SVGGraphicsElement &
+    HTMLElement;
+  const textElements = getTextElements("");
+  const resultsElements: ResultsElements = {
+    panel: document.getElementById("results") as HTMLElement,
+    reason: document.getElementById("resultsReason") as HTMLElement,
+    score: document.getElementById("resultsScore") as HTMLElement,
+    lines: document.getElementById("resultsLines") as HTMLElement,
+    level: document.getElementById("resultsLevel") as HTMLElement,
+    time: document.getElementById("resultsTime") as HTMLElement,
+  };
+  const saveReplay = document.getElementById("saveReplay") as HTMLElement;
+  const loadReplay = document.getElementById("loadReplay") as HTMLInputElement;
+  const replayTickText = document.getElementById(
+    "replayTickText"
   ) as HTMLElement;
+  const playbackElements: PlaybackElements = {
+    pause: document.getElementById("pauseReplay") as HTMLElement,
+    speed: document.getElementById("replaySpeed") as HTMLSelectElement,
+    seekTick: document.getElementById("seekTick") as HTMLInputElement,
+    seek: document.getElementById("seekReplay") as HTMLElement,
+  };
+  const themeSelect = document.getElementById(
+    "themeSelect"
+  ) as HTMLSelectElement;
+  const modeSelect = document.getElementById("modeSelect") as HTMLSelectElement;
+  const settingsElements: SettingsElements = {
+    keys: Object.fromEntries(
+      Object.keys(DefaultInputSettings.keyBindings).map((action) => [
+        action,
+        document.getElementById(`keys${action}`) as HTMLElement,
+      ])
+    ) as SettingsElements["keys"],
+    bindButtons: Array.from(
+      document.querySelectorAll<HTMLElement>("button.bindKey")
+    ),
+    clearButtons: Array.from(
+      document.querySelectorAll<HTMLElement>("button.clearKeys")
+    ),
+    das: document.getElementById("dasInput") as HTMLInputElement,
+    arr: document.getElementById("arrInput") as HTMLInputElement,
+    softDropFactor: document.getElementById(
+      "softDropFactorInput"
+    ) as HTMLInputElement,
+  };
+  const resetSettings = document.getElementById("resetSettings") as HTMLElement;
+  const leaderboardElements: LeaderboardElements = {
+    table: document.getElementById("leaderboardRows") as HTMLElement,
+    exportButton: document.getElementById("exportLeaderboard") as HTMLElement,
+    importInput: document.getElementById(
+      "importLeaderboard"
+    ) as HTMLInputElement,
+  };
+  const touchButtons = Array.from(
+    document.querySelectorAll<HTMLElement>("#touchControls button")
+  );
+  const demoButton = document.getElementById("demoButton") as HTMLElement;
+
+  // The theme can be changed at any time and is remembered between visits
+  const theme$ = createTheme$(themeSelect);
+
+  // The board, the piece sequence strategy and the mode can be selected at startup with query parameters, e.g. ?board=wide&randomizer=History&mode=Sprint
+  const params = new URLSearchParams(window.location.search);
+  const board = params.get("board");
+  const randomizer = params.get("randomizer");
+  const mode = params.get("mode");
+  // picking another mode starts it by loading the page with its query parameter
+  modeSelect.value =
+    isGameModeName(mode) || mode === ONLINE_MODE ? mode : DefaultConfig.mode;
+  fromEvent(modeSelect, "change").subscribe(() => {
+    params.set("mode", modeSelect.value);
+    window.location.search = params.toString();
+  });
+  // The controls can be changed at any time, the soft drop factor is part of the game config and applies from the next page load
+  const keyDown$ = fromEvent<KeyboardEvent>(document, "keydown");
+  const keyUp$ = fromEvent<KeyboardEvent>(document, "keyup");
+  const inputSettings$ = createInputSettings$(
+    settingsElements,
+    resetSettings,
+    keyDown$
+  );
+  const { softDropFactor } = parseInputSettings(
+    localStorage.getItem(INPUT_SETTINGS_STORAGE_KEY)
+  );
 
-  // Set the height and width attributes of the SVG elements
-  svg.setAttribute("height", `${Viewport.CANVAS_HEIGHT}`);
-  svg.setAttribute("width", `${Viewport.CANVAS_WIDTH}`);
-  preview.setAttribute("height", `${Viewport.PREVIEW_HEIGHT}`);
-  preview.setAttribute("width", `${Viewport.PREVIEW_WIDTH}`);
+  const config: GameConfig = {
+    ...DefaultConfig,
+    ...(board && BoardPresets[board]),
+    ...(isRandomizerType(randomizer) && { randomizer }),
+    ...(isGameModeName(mode) && { mode }),
+    softDropFactor,
+  };
+
+  // The game is drawn with svg elements, or with 2d canvases in their place with ?renderer=canvas
+  const canvas = params.get("renderer") === "canvas";
+  const renderer = createRenderer(
+    { board: svg, preview, hold, textElements },
+    canvas
+  );
+  renderer.resize(config);
+
+  // The game is seeded from the current time here, at the edge of the app, so that everything inside the game stays pure
+  const seed = Date.now();
+
+  // the game pauses itself when the page is hidden or loses the focus, it is only resumed by the player
+  const autoPause$ = merge(
+    fromEvent(document, "visibilitychange").pipe(filter(() => document.hidden)),
+    fromEvent(window, "blur")
+  ).pipe(map((): GameEvent => "Pause"));
+
+  // In versus two players play side by side on the boards of the page, in online versus the second board is the one of the opponent
+  if (config.mode === "Versus" || mode === ONLINE_MODE) {
+    const renderer2 = createRenderer(
+      {
+        board: document.querySelector("#svgCanvas2") as SVGElement,
+        preview: document.querySelector("#svgPreview2") as SVGElement,
+        hold: document.querySelector("#svgHold2") as SVGElement,
+        textElements: getTextElements("2"),
+      },
+      canvas
+    );
+    renderer2.resize(config);
+    const meters = [
+      document.getElementById("garbageMeter") as HTMLMeterElement,
+      document.getElementById("garbageMeter2") as HTMLMeterElement,
+    ] as const;
+    (document.getElementById("player2") as HTMLElement).hidden = false;
+    (document.getElementById("garbage") as HTMLElement).hidden = false;
+    demoButton.hidden = true;
+    if (mode === ONLINE_MODE) {
+      // the relay server is on the port of npm run relay on the host of the page, unless another one is given with ?server=ws://host:port
+      runOnline(
+        config,
+        params.get("server") ??
+          `ws://${location.hostname || "localhost"}:${Online.DEFAULT_PORT}`,
+        [renderer, renderer2],
+        meters,
+        theme$,
+        inputSettings$,
+        keyDown$,
+        keyUp$
+      );
+    } else {
+      runVersus(
+        config,
+        seed,
+        [renderer, renderer2],
+        meters,
+        theme$,
+        inputSettings$,
+        keyDown$,
+        keyUp$,
+        autoPause$
+      );
+    }
+    return;
+  }
+  const game = createGame(config, seed);
 
-  // Subscribe to the game observable and render the game state for each new state
-  game$.subscribe((s: State) => {
-    render(s, svg, scoreElement, highScoreElement, preview);
-    score$.next(s.score);
+  // The game is driven by the keyboard, a gamepad, touches and the game clock, which stops while the game is paused
+  const tick$ = createPausableTick$(game.state$.pipe(map((s) => s.paused)));
+  // the gamepad is polled at the rate of the game clock, but keeps being polled during a pause so that it can resume the game
+  const gamepad$ = createTick$().pipe(
+    map(() => readGamepadSnapshot(navigator.getGamepads?.() ?? []))
+  );
+  // In demo mode the bot plays the game. Turning it on or off restarts the game, so that a game is played by the bot or the player from start to end
+  const demo$ = fromEvent(demoButton, "click").pipe(
+    tap(() => demoButton.blur()),
+    scan((demo) => !demo, false),
+    startWith(false),
+    tap((demo) => (demoButton.textContent = `Demo: ${demo ? "on" : "off"}`)),
+    shareReplay(1)
+  );
+  const botEvent$ = demo$.pipe(
+    skip(1),
+    switchMap((demo) =>
+      concat(
+        of<GameEvent>("Restart"),
+        demo
+          ? createBotEvent$(createTick$(Bot.DEMO_MOVE_MS), game.state$)
+          : EMPTY
+      )
+    )
+  );
+  // the board is looked up again as the canvas renderer replaces it
+  const touchArea = document.getElementById("svgCanvas") as Element;
+  const touch$ = (type: "touchstart" | "touchmove" | "touchend") =>
+    fromEvent<TouchEvent>(touchArea, type).pipe(map(readTouchPoint));
+  const userAction$ = merge(
+    inputSettings$.pipe(
+      switchMap((settings) =>
+        merge(
+          createUserAction$(keyDown$, keyUp$, settings),
+          createGamepadAction$(gamepad$, settings),
+          createActionEvent$(createTouchButtonInput$(touchButtons), settings)
+        )
+      )
+    ),
+    createTouchAction$(
+      touch$("touchstart"),
+      touch$("touchmove"),
+      touch$("touchend")
+    ),
+    autoPause$,
+    botEvent$
+  );
+  const gameEvent$ = createGameEvent$(userAction$, tick$);
+
+  // The games that end make it onto the leaderboard and the high score, which are kept between visits, but for the games of the bot
+  const result$ = game.state$.pipe(
+    map((s) => s.lastResult),
+    distinctUntilChanged(),
+    withLatestFrom(demo$),
+    filter(
+      (played): played is [GameResult, false] =>
+        played[0] !== undefined && !played[1]
+    ),
+    map(([result]) => result)
+  );
+  const leaderboard$ = createLeaderboard$(
+    createWebLeaderboardStorage(localStorage, LEADERBOARD_STORAGE_KEY),
+    leaderboardElements,
+    result$,
+    config.mode
+  );
+  const highScore$ = createHighScore$(result$, config.mode);
+  fromEvent(leaderboardElements.exportButton, "click")
+    .pipe(withLatestFrom(leaderboard$))
+    .subscribe(([, leaderboard]) =>
+      downloadJson(serializeLeaderboard(leaderboard), "leaderboard.json")
+    );
+
+  // Subscribe to the game states and render the game state for each new state
+  // the high score shown is the best of this visit, of the high score kept and of the leaderboard of the mode, which may have been imported
+  const renderSubscription = combineLatest([
+    game.state$,
+    theme$,
+    leaderboard$,
+    highScore$,
+  ]).subscribe(([s, theme, leaderboard, highScore]) => {
+    renderGame(
+      renderer,
+      {
+        ...s,
+        highScore: Math.max(
+          s.highScore,
+          highScore,
+          getBestScore(leaderboard, s.config.mode)
+        ),
+      },
+      theme
+    );
+    renderResultsPanel(s, resultsElements);
   });
+  const gameSubscription = game.connect(gameEvent$);
+  // Every game event is recorded so that the game can be saved as a replay
+  const recording$ = createRecording$(config, seed, gameEvent$);
+
+  // Save the game recorded so far as a replay file, together with a thumbnail of the board as it is now
+  fromEvent(saveReplay, "click")
+    .pipe(
+      // the button gives the focus back so that Space hard drops instead of pressing it again
+      tap(() => saveReplay.blur()),
+      withLatestFrom(recording$, game.state$, theme$)
+    )
+    .subscribe(([, replay, s, theme]) => {
+      downloadReplay(replay);
+      renderThumbnail(s, theme).then((thumbnail) =>
+        downloadBlob(thumbnail, `replay-${replay.seed}.png`)
+      );
+    });
+
+  // Loading a replay file stops the game and plays the replay back instead, invalid files are reported and ignored
+  const replay$ = fromEvent(loadReplay, "change").pipe(
+    switchMap(() =>
+      readFile$(loadReplay).pipe(
+        map(parseReplay),
+        catchError((error: Error) => {
+          alert(error.message);
+          return EMPTY;
+        })
+      )
+    ),
+    tap((replay) => {
+      gameSubscription.unsubscribe();
+      renderSubscription.unsubscribe();
+      renderer.resize(replay.config);
+    })
+  );
+  const playbackControl$ = createPlaybackControl$(playbackElements);
+
+  replay$
+    .pipe(
+      switchMap((replay) =>
+        combineLatest([
+          createPlayback$(replay, createTick$(), playbackControl$),
+          theme$,
+        ])
+      )
+    )
+    .subscribe(([playback, theme]) => {
+      renderGame(renderer, playback.state, theme);
+      renderResultsPanel(playback.state, resultsElements);
+      replayTickText.textContent = `${playback.tick} / ${playback.replay.ticks}`;
+    });
 }
 
 if (typeof window !== "undefined") {
@@ -1,83 +1,570 @@
-import { BehaviorSubject, Observable, fromEvent, interval, merge } from "rxjs";
+import {
+  EMPTY,
+  Observable,
+  concat,
+  fromEvent,
+  interval,
+  merge,
+  of,
+  timer,
+} from "rxjs";
 import {
   distinctUntilChanged,
   filter,
   map,
+  mergeMap,
+  pairwise,
   scan,
+  share,
+  startWith,
   switchMap,
+  take,
+  takeUntil,
+  tap,
+  withLatestFrom,
 } from "rxjs/operators";
-import { gameActions, initialState } from "./game";
-import { getTickRate } from "./generics";
-import { GameEvent, Key, State } from "./types";
-
-// Create an observable for keydown events
-const key$ = fromEvent<KeyboardEvent>(document, "keydown");
-
-// function to filter keydown events by key code
-const fromKey = (keyCode: Key) =>
-  filter((e: KeyboardEvent) => e.code === keyCode);
-
-const left$: Observable<GameEvent> = key$.pipe(
-  fromKey("KeyA"),
-  map(() => "Left")
-);
-
-const right$: Observable<GameEvent> = key$.pipe(
-  fromKey("KeyD"),
-  map(() => "Right")
-);
-const down$: Observable<GameEvent> = key$.pipe(
-  fromKey("KeyS"),
-  map(() => "Down")
-);
-
-const rotateClockwise$: Observable<GameEvent> = key$.pipe(
-  fromKey("KeyE"),
-  map(() => "RotateClockwise")
-);
-
-const rotateAntiClockwise$: Observable<GameEvent> = key$.pipe(
-  fromKey("KeyQ"),
-  map(() => "RotateAntiClockwise")
-);
-
-const hold$: Observable<GameEvent> = key$.pipe(
-  fromKey("KeyH"),
-  map(() => "Hold")
-);
-
-const restart$: Observable<GameEvent> = key$.pipe(
-  fromKey("KeyR"),
-  map(() => "Restart")
-);
-
-// Merge all user action observables into one
-const userAction$: Observable<GameEvent> = merge(
-  left$,
-  right$,
-  down$,
-  rotateClockwise$,
-  rotateAntiClockwise$,
-  hold$,
-  restart$
-);
-
-// Create a score$ observable that emits the current score
-export const score$ = new BehaviorSubject<number>(initialState.score);
-
-// Create a distinctScore$ observable that emits the current score only when it changes
-// distinctUntilChanged is an operator in RxJS that filters out consecutive duplicate values in an Observable. It only emits a value if it is different from the previous value
-export const distinctScore$ = score$.pipe(distinctUntilChanged());
-
-// Create a tick$ observable that adjusts the tick rate based on the current score
-// switchMap is an operator that is used to transform the items emitted by an Observable into Observables, and then mirror the emissions from the most recently transformed Observable. It is similar to mergeMap and concatMap, but it cancels the previous inner Observable when a new one is emitted.
-export const tick$ = distinctScore$.pipe(
-  switchMap((score) => interval(getTickRate(score))),
-  map(() => "Tick" as GameEvent)
-);
-
-export const game$ = merge(userAction$, tick$).pipe(
-  scan((state: State, event: GameEvent) => {
-    return gameActions[event](state);
-  }, initialState)
-);
+import { MAX_BOARD_WIDTH } from "./board";
+import { getBotMoves } from "./bot";
+import {
+  Constants,
+  DefaultBotWeights,
+  DefaultGamepadBindings,
+  DefaultInputSettings,
+  TouchGestures,
+} from "./constants";
+import { createOnlineState, stepOnline } from "./online";
+import { parseServerMessage, serializeMessage } from "./protocol";
+import {
+  advancePlayback,
+  controlPlayback,
+  createPlayback,
+  createReplay,
+  recordEvent,
+} from "./replay";
+import {
+  ActionInput,
+  BotWeights,
+  ClientMessage,
+  GameConfig,
+  GameEvent,
+  GamepadBindings,
+  GamepadSnapshot,
+  InputAction,
+  InputSettings,
+  Key,
+  KeyBindings,
+  OnlineConnection,
+  OnlineEvent,
+  OnlineState,
+  PlaybackControl,
+  PlaybackElements,
+  PlaybackSpeed,
+  PlaybackState,
+  Replay,
+  State,
+  TouchPoint,
+  VersusEvent,
+} from "./types";
+
+/**
+ * Creates the auto repeat of a left or right move while its input is held:
+ * after the delayed auto shift the move repeats at the auto repeat rate, with a rate of 0 the block moves to the wall at once.
+ * @param event - The move to repeat.
+ * @param settings - The input settings.
+ * @returns An observable of the repeated moves.
+ */
+const createAutoRepeat$ = (
+  event: GameEvent,
+  { das, arr }: InputSettings
+): Observable<GameEvent> =>
+  arr > 0
+    ? timer(das, arr).pipe(map(() => event))
+    : timer(das).pipe(
+        // no board is wider than this, so the block ends up at the wall
+        mergeMap(() => Array.from({ length: MAX_BOARD_WIDTH }, () => event))
+      );
+
+/**
+ * Turns the presses and releases of the inputs bound to actions into game events, whatever device they come from.
+ * Left and right repeat while held with the delayed auto shift and auto repeat rate of the settings,
+ * soft drop lasts until it is released and the other actions happen once per press.
+ * @param actionInput$ - The presses and releases of the actions.
+ * @param settings - The delayed auto shift and auto repeat rate.
+ * @returns An observable of the game events triggered by the actions.
+ */
+export const createActionEvent$ = (
+  actionInput$: Observable<ActionInput>,
+  settings: InputSettings = DefaultInputSettings
+): Observable<GameEvent> => {
+  const input$ = actionInput$.pipe(share());
+  const press$ = (action: InputAction) =>
+    input$.pipe(filter((input) => input.pressed && input.action === action));
+  const release$ = (action: InputAction) =>
+    input$.pipe(filter((input) => !input.pressed && input.action === action));
+
+  // A move happens when its input is pressed and then repeats until it is released or the other direction is pressed.
+  // The directions held are kept in the order they were pressed, the last one moves the block,
+  // so releasing it while the other one is still held moves the block the other way again
+  const shift$: Observable<GameEvent> = input$.pipe(
+    filter(
+      (input): input is ActionInput & { action: "Left" | "Right" } =>
+        input.action === "Left" || input.action === "Right"
+    ),
+    scan(
+      (held: ReadonlyArray<"Left" | "Right">, { action, pressed }) => [
+        ...held.filter((direction) => direction !== action),
+        ...(pressed ? [action] : []),
+      ],
+      []
+    ),
+    map((held) => held[held.length - 1]),
+    distinctUntilChanged(),
+    switchMap((direction) =>
+      direction
+        ? concat(of(direction), createAutoRepeat$(direction, settings))
+        : EMPTY
+    )
+  );
+
+  // The block falls faster for as long as soft drop is held
+  const softDrop$: Observable<GameEvent> = merge(
+    press$("SoftDrop").pipe(map((): GameEvent => "SoftDropStart")),
+    release$("SoftDrop").pipe(map((): GameEvent => "SoftDropEnd"))
+  );
+
+  // Pausing resumes a paused game
+  const pause$: Observable<GameEvent> = press$("Pause").pipe(
+    map((): GameEvent => "TogglePause")
+  );
+
+  // The other actions happen once per press
+  const singleActions: ReadonlyArray<InputAction & GameEvent> = [
+    "HardDrop",
+    "RotateClockwise",
+    "RotateAntiClockwise",
+    "Hold",
+    "Restart",
+  ];
+
+  // Merge all user action observables into one
+  return merge(
+    shift$,
+    softDrop$,
+    pause$,
+    ...singleActions.map((action) =>
+      press$(action).pipe(map((): GameEvent => action))
+    )
+  );
+};
+
+// gets the presses and releases of the actions whose keys changed between two sets of held keys.
+// an action is held while any of its keys is held, so it is only released once the last of them is released
+const toKeyInputs = (
+  keyBindings: KeyBindings,
+  before: ReadonlyArray<Key>,
+  now: ReadonlyArray<Key>
+): ActionInput[] =>
+  (Object.keys(keyBindings) as InputAction[]).flatMap((action) => {
+    const isHeld = (held: ReadonlyArray<Key>) =>
+      keyBindings[action].some((key) => held.includes(key));
+    return isHeld(before) === isHeld(now)
+      ? []
+      : [{ action, pressed: isHeld(now) }];
+  });
+
+/**
+ * Creates the observable of user actions from key events.
+ * The key events are passed in rather than read from the document so that the game can run without a browser.
+ * The repeated keydown events of the operating system are ignored, the input is repeated by the delayed auto shift and auto repeat rate of the settings instead.
+ * The keys held are tracked like the buttons of a gamepad, so that an action bound to several keys lasts until the last of them is released.
+ * @param keyDown$ - The keydown events, e.g. fromEvent(document, "keydown").
+ * @param keyUp$ - The keyup events, e.g. fromEvent(document, "keyup").
+ * @param settings - The key bindings, delayed auto shift and auto repeat rate.
+ * @returns An observable of the game events triggered by the keys.
+ */
+export const createUserAction$ = (
+  keyDown$: Observable<KeyboardEvent>,
+  keyUp$: Observable<KeyboardEvent>,
+  settings: InputSettings = DefaultInputSettings
+): Observable<GameEvent> =>
+  createActionEvent$(
+    merge(
+      keyDown$.pipe(
+        filter((e) => !e.repeat),
+        map((e) => ({ code: e.code, pressed: true }))
+      ),
+      keyUp$.pipe(map((e) => ({ code: e.code, pressed: false })))
+    ).pipe(
+      scan(
+        (held: ReadonlyArray<Key>, { code, pressed }) => [
+          ...held.filter((key) => key !== code),
+          ...(pressed ? [code] : []),
+        ],
+        []
+      ),
+      startWith([]),
+      pairwise(),
+      mergeMap(([before, now]) =>
+        toKeyInputs(settings.keyBindings, before, now)
+      )
+    ),
+    settings
+  );
+
+/* Gamepad */
+
+/**
+ * Reads the buttons of the first connected gamepad, e.g. from navigator.getGamepads().
+ * @param gamepads - The gamepads, with null for the slots without a gamepad.
+ * @returns Whether each button of the standard mapping is pressed, no buttons without a gamepad.
+ */
+export const readGamepadSnapshot = (
+  gamepads: ReadonlyArray<Gamepad | null>
+): GamepadSnapshot =>
+  gamepads
+    .find(
+      (gamepad): gamepad is Gamepad => gamepad !== null && gamepad.connected
+    )
+    ?.buttons.map((button) => button.pressed) ?? [];
+
+// gets the presses and releases of the actions whose buttons changed between two snapshots
+const toGamepadInputs = (
+  bindings: GamepadBindings,
+  before: GamepadSnapshot,
+  now: GamepadSnapshot
+): ActionInput[] =>
+  (Object.keys(bindings) as InputAction[]).flatMap((action) => {
+    const isHeld = (snapshot: GamepadSnapshot) =>
+      bindings[action].some((button) => snapshot[button] === true);
+    return isHeld(before) === isHeld(now)
+      ? []
+      : [{ action, pressed: isHeld(now) }];
+  });
+
+/**
+ * Creates the observable of user actions from a gamepad.
+ * The Gamepad API has no events for its buttons, so snapshots of the buttons are polled and compared with the previous one.
+ * Held buttons repeat with the same delayed auto shift and auto repeat rate as the keys.
+ * @param snapshot$ - The polled snapshots of the gamepad buttons (see readGamepadSnapshot).
+ * @param settings - The delayed auto shift and auto repeat rate.
+ * @param bindings - The buttons bound to each action.
+ * @returns An observable of the game events triggered by the buttons.
+ */
+export const createGamepadAction$ = (
+  snapshot$: Observable<GamepadSnapshot>,
+  settings: InputSettings = DefaultInputSettings,
+  bindings: GamepadBindings = DefaultGamepadBindings
+): Observable<GameEvent> =>
+  createActionEvent$(
+    snapshot$.pipe(
+      startWith([]),
+      pairwise(),
+      mergeMap(([before, now]) => toGamepadInputs(bindings, before, now))
+    ),
+    settings
+  );
+
+/* Touch */
+
+/**
+ * Reads where the finger of a touch event is, e.g. from fromEvent(element, "touchstart").
+ * @param e - The touch event.
+ * @returns The point of the first finger that changed.
+ */
+export const readTouchPoint = (e: TouchEvent): TouchPoint => ({
+  x: e.changedTouches[0].clientX,
+  y: e.changedTouches[0].clientY,
+  time: e.timeStamp,
+});
+
+/**
+ * Gets the moves of a swipe since the point it was last stepped at: a move left, right or down for every step distance the finger travelled.
+ * @param anchor - The point the swipe was last stepped at.
+ * @param point - The point the finger is at.
+ * @returns The moves and the point to step the rest of the swipe from.
+ */
+const getSwipeSteps = (
+  anchor: TouchPoint,
+  point: TouchPoint
+): { newAnchor: TouchPoint; events: GameEvent[] } => {
+  const columns = Math.trunc(
+    (point.x - anchor.x) / TouchGestures.STEP_DISTANCE
+  );
+  // swiping up does nothing
+  const rows = Math.max(
+    Math.trunc((point.y - anchor.y) / TouchGestures.STEP_DISTANCE),
+    0
+  );
+  return {
+    newAnchor: {
+      x: anchor.x + columns * TouchGestures.STEP_DISTANCE,
+      y: anchor.y + rows * TouchGestures.STEP_DISTANCE,
+      time: point.time,
+    },
+    events: [
+      ...Array.from(
+        { length: Math.abs(columns) },
+        (): GameEvent => (columns < 0 ? "Left" : "Right")
+      ),
+      ...Array.from({ length: rows }, (): GameEvent => "Down"),
+    ],
+  };
+};
+
+/**
+ * Gets the game event of a touch when the finger is lifted: a tap rotates, a long and quick swipe down hard drops.
+ * @param start - The point the touch started at.
+ * @param end - The point the finger was lifted at.
+ * @returns The game event, none for the end of a slow swipe.
+ */
+const getTouchEndEvents = (start: TouchPoint, end: TouchPoint): GameEvent[] => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const duration = end.time - start.time;
+  if (
+    Math.hypot(dx, dy) < TouchGestures.TAP_DISTANCE &&
+    duration <= TouchGestures.TAP_MS
+  ) {
+    return ["RotateClockwise"];
+  }
+  return dy >= TouchGestures.HARD_DROP_DISTANCE &&
+    dy > Math.abs(dx) &&
+    duration <= TouchGestures.HARD_DROP_MS
+    ? ["HardDrop"]
+    : [];
+};
+
+/**
+ * Creates the observable of user actions from touch gestures on the board.
+ * Swiping left, right or down moves the block a cell for every step distance swiped, tapping rotates it clockwise
+ * and a long quick swipe down hard drops it.
+ * @param touchStart$ - The points where touches start.
+ * @param touchMove$ - The points a finger moves to.
+ * @param touchEnd$ - The points where fingers are lifted.
+ * @returns An observable of the game events triggered by the gestures.
+ */
+export const createTouchAction$ = (
+  touchStart$: Observable<TouchPoint>,
+  touchMove$: Observable<TouchPoint>,
+  touchEnd$: Observable<TouchPoint>
+): Observable<GameEvent> =>
+  touchStart$.pipe(
+    switchMap((start) => {
+      const end$ = touchEnd$.pipe(take(1));
+      return merge(
+        touchMove$.pipe(
+          takeUntil(end$),
+          scan(({ newAnchor }, point) => getSwipeSteps(newAnchor, point), {
+            newAnchor: start,
+            events: [] as GameEvent[],
+          }),
+          mergeMap(({ events }) => events)
+        ),
+        end$.pipe(mergeMap((end) => getTouchEndEvents(start, end)))
+      );
+    })
+  );
+
+/**
+ * Creates the game clock. It ticks at a fixed rate, how fast blocks fall is decided by the game state (see getGravity).
+ * @param period - The time between ticks in ms.
+ * @returns An observable of ticks.
+ */
+export const createTick$ = (
+  period: number = Constants.TICK_RATE_MS
+): Observable<GameEvent> => interval(period).pipe(map(() => "Tick"));
+
+/**
+ * Creates the game clock of a game that can be paused. The clock stops while the game is paused instead of ticking into a paused game,
+ * and starts a new period when the game resumes.
+ * @param paused$ - Whether the game is paused, e.g. from the game states.
+ * @param period - The time between ticks in ms.
+ * @returns An observable of ticks.
+ */
+export const createPausableTick$ = (
+  paused$: Observable<boolean>,
+  period: number = Constants.TICK_RATE_MS
+): Observable<GameEvent> =>
+  paused$.pipe(
+    distinctUntilChanged(),
+    switchMap((paused) => (paused ? EMPTY : createTick$(period)))
+  );
+
+/**
+ * Merges the user actions and the game clock into the game events.
+ * The events are shared so that the game and the replay recorder see the same ticks.
+ * @param userAction$ - The user actions.
+ * @param tick$ - The game clock.
+ * @returns An observable of all game events.
+ */
+export const createGameEvent$ = (
+  userAction$: Observable<GameEvent>,
+  tick$: Observable<GameEvent>
+): Observable<GameEvent> => merge(userAction$, tick$).pipe(share());
+
+/**
+ * Merges the actions of the two players of a versus match and the game clock into the events of the match.
+ * @param playerAction$s - The actions of each player, e.g. from the keys bound to that player.
+ * @param tick$ - The game clock, which ticks both games.
+ * @returns An observable of all events of the match.
+ */
+export const createVersusEvent$ = (
+  playerAction$s: readonly [Observable<GameEvent>, Observable<GameEvent>],
+  tick$: Observable<GameEvent>
+): Observable<VersusEvent> =>
+  merge(
+    playerAction$s[0].pipe(map((event): VersusEvent => ({ player: 0, event }))),
+    playerAction$s[1].pipe(map((event): VersusEvent => ({ player: 1, event }))),
+    tick$.pipe(map((event): VersusEvent => ({ event })))
+  );
+
+/**
+ * Creates the moves of the bot that plays the game in demo mode. Each time the bot looks at the game, a block that has spawned is dropped where the bot picks.
+ * @param look$ - When the bot looks at the game, e.g. a clock slower than the game clock so that each block is seen before it drops.
+ * @param state$ - The game states.
+ * @param weights - The weight of each feature of a board the bot scores its placements by.
+ * @returns An observable of the game events of the bot.
+ */
+export const createBotEvent$ = (
+  look$: Observable<unknown>,
+  state$: Observable<State>,
+  weights: BotWeights = DefaultBotWeights
+): Observable<GameEvent> =>
+  look$.pipe(
+    withLatestFrom(state$),
+    mergeMap(([, state]) => getBotMoves(state, weights))
+  );
+
+/**
+ * Creates the replay recorder observable that records every game event of the game.
+ * It must be subscribed together with the game so that both see the same events.
+ * @param config - The config the game was started with.
+ * @param seed - The seed the game was started with.
+ * @param gameEvent$ - The game events fed into the game.
+ * @returns An observable of the replay recorded so far.
+ */
+export const createRecording$ = (
+  config: GameConfig,
+  seed: number,
+  gameEvent$: Observable<GameEvent>
+): Observable<Replay> =>
+  gameEvent$.pipe(scan(recordEvent, createReplay(config, seed)));
+
+/**
+ * Creates the observable of the replay player controls from the elements of the replay panel.
+ * @param elements - The elements of the replay panel.
+ * @returns An observable of playback controls.
+ */
+export const createPlaybackControl$ = (
+  elements: PlaybackElements
+): Observable<PlaybackControl> =>
+  merge(
+    fromEvent(elements.pause, "click").pipe(
+      map((): PlaybackControl => ({ type: "TogglePause" }))
+    ),
+    fromEvent(elements.speed, "change").pipe(
+      map(
+        (): PlaybackControl => ({
+          type: "Speed",
+          speed: Number(elements.speed.value) as PlaybackSpeed,
+        })
+      )
+    ),
+    fromEvent(elements.seek, "click").pipe(
+      map(
+        (): PlaybackControl => ({
+          type: "Seek",
+          tick: Number(elements.seekTick.value),
+        })
+      )
+    )
+  );
+
+/**
+ * Creates the replay player observable that plays a replay back at the game clock rate instead of reading the keyboard.
+ * @param replay - The replay to play back.
+ * @param tick$ - The clock of the player.
+ * @param control$ - The controls of the player: pause, speed and seek.
+ * @returns An observable of playback states.
+ */
+export const createPlayback$ = (
+  replay: Replay,
+  tick$: Observable<GameEvent>,
+  control$: Observable<PlaybackControl>
+): Observable<PlaybackState> =>
+  merge(tick$, control$).pipe(
+    scan(
+      (playback: PlaybackState, event: GameEvent | PlaybackControl) =>
+        // the only game events merged in are the ticks of the game clock
+        typeof event === "string"
+          ? advancePlayback(playback)
+          : controlPlayback(playback, event),
+      createPlayback(replay)
+    )
+  );
+
+/* Online */
+
+/**
+ * Wraps a WebSocket to the relay server into a connection that sends and receives the messages of the online protocol.
+ * Messages sent before the socket is open are sent once it opens, and messages that are not part of the protocol are ignored.
+ * @param socket - The WebSocket, e.g. new WebSocket("ws://localhost:8080") in the browser or a WebSocket of the ws package in Node.
+ * @returns The connection.
+ */
+export const createOnlineConnection = (
+  socket: WebSocket
+): OnlineConnection => ({
+  send: (message: ClientMessage) => {
+    const send = () => socket.send(serializeMessage(message));
+    if (socket.readyState === socket.OPEN) {
+      send();
+    } else {
+      fromEvent(socket, "open").pipe(take(1)).subscribe(send);
+    }
+  },
+  message$: fromEvent<MessageEvent>(socket, "message").pipe(
+    takeUntil(fromEvent(socket, "close")),
+    mergeMap((e) => {
+      try {
+        return of(parseServerMessage(String(e.data)));
+      } catch {
+        return EMPTY;
+      }
+    }),
+    share()
+  ),
+  close: () => socket.close(),
+});
+
+/**
+ * Creates the observable of a client of an online match. The game of the player runs here, on the inputs and the game clock of the player,
+ * and the messages the client leaves in its outbox are sent to the relay server.
+ * @param connection - The connection to the relay server.
+ * @param config - The board dimensions and rules of the games.
+ * @param command$ - The lobby commands of the player, e.g. create or join a room and get ready.
+ * @param gameEvent$ - The inputs of the player and the ticks of the game clock.
+ * @returns An observable of the states of the client.
+ */
+export const createOnline$ = (
+  connection: OnlineConnection,
+  config: GameConfig,
+  command$: Observable<ClientMessage>,
+  gameEvent$: Observable<GameEvent>
+): Observable<OnlineState> =>
+  merge(
+    command$.pipe(
+      map((message): OnlineEvent => ({ type: "Command", message }))
+    ),
+    concat(
+      connection.message$.pipe(
+        map((message): OnlineEvent => ({ type: "Server", message }))
+      ),
+      of<OnlineEvent>({ type: "Disconnected" })
+    ),
+    gameEvent$.pipe(map((event): OnlineEvent => ({ type: "Game", event })))
+  ).pipe(
+    scan(stepOnline, createOnlineState(config)),
+    tap((online) => online.outbox.forEach(connection.send)),
+    startWith(createOnlineState(config)),
+    share()
+  );
@@ -0,0 +1,221 @@
+import { Constants, Online } from "./constants";
+import { createInitialState, gameActions } from "./game";
+import { getGridHeight } from "./generics";
+import {
+  ClientMessage,
+  GameConfig,
+  GameEvent,
+  OnlineEvent,
+  OnlineSnapshot,
+  OnlineState,
+  ServerMessage,
+  State,
+} from "./types";
+import { clearSentGarbage, getVersusConfig, receiveGarbage } from "./versus";
+
+// the events that would pause or restart the game of one player, which an online match ignores as the opponent plays on
+const LocalOnlyEvents: ReadonlyArray<GameEvent> = [
+  "Pause",
+  "Resume",
+  "TogglePause",
+  "Restart",
+];
+
+/**
+ * Creates the state of a client of an online match that is connected to the relay server but not in a room yet.
+ * @param config - The board dimensions and rules of the games, played in the Versus mode whatever mode it has.
+ * @returns The state of the client.
+ */
+export const createOnlineState = (config: GameConfig): OnlineState => ({
+  config: getVersusConfig(config),
+  phase: "Lobby",
+  opponentJoined: false,
+  ready: false,
+  countdown: 0,
+  outbox: [],
+});
+
+/**
+ * Takes the snapshot of a game that is sent to the opponent, the part of the state needed to draw the board and the info panel.
+ * @param state - The game state.
+ * @returns The snapshot.
+ */
+export const getSnapshot = ({
+  board,
+  currentBlock,
+  nextBlocks,
+  holdBlock,
+  canHold,
+  score,
+  level,
+  lines,
+  lastClear,
+  elapsed,
+  clearingRows,
+  pendingGarbage,
+  gameEnd,
+}: State): OnlineSnapshot => ({
+  board,
+  currentBlock,
+  nextBlocks,
+  holdBlock,
+  canHold,
+  score,
+  level,
+  lines,
+  lastClear,
+  elapsed,
+  clearingRows,
+  pendingGarbage,
+  gameEnd,
+});
+
+/**
+ * Gets a game state of the last board the opponent sent, to draw it read only.
+ * @param online - The state of the client.
+ * @returns The game state of the opponent, undefined until the opponent has sent a board.
+ */
+export const getOpponentState = ({
+  config,
+  opponent,
+}: OnlineState): State | undefined =>
+  opponent && { ...createInitialState(config, 0), ...opponent };
+
+/**
+ * Applies an input of the player or a tick of the game clock to the game of the player.
+ * The countdown runs on the ticks and the game starts once it is over. During the match the garbage the game sends goes to the opponent,
+ * the board is sent every SNAPSHOT_INTERVAL_MS of game time and the relay server is told once the game tops out.
+ * @param online - The state of the client.
+ * @param event - The game event.
+ * @returns The new state of the client.
+ */
+const stepGame = (online: OnlineState, event: GameEvent): OnlineState => {
+  if (online.phase === "Countdown" && event === "Tick") {
+    const countdown = online.countdown - Constants.TICK_RATE_MS;
+    return countdown > 0
+      ? { ...online, countdown }
+      : { ...online, countdown: 0, phase: "Playing" };
+  }
+  const { game } = online;
+  if (online.phase !== "Playing" || !game || LocalOnlyEvents.includes(event)) {
+    return online;
+  }
+
+  const next = gameActions[event](game);
+  // a game that is over does not change, so there is nothing to send
+  if (next === game) {
+    return online;
+  }
+  const toppedOut = next.gameEnd && !game.gameEnd;
+  const outbox: ReadonlyArray<ClientMessage> = [
+    ...(next.sentGarbage > 0
+      ? [{ type: "Attack", rows: next.sentGarbage } as const]
+      : []),
+    ...((event === "Tick" &&
+      next.elapsed % Online.SNAPSHOT_INTERVAL_MS === 0) ||
+    toppedOut
+      ? [{ type: "Snapshot", snapshot: getSnapshot(next) } as const]
+      : []),
+    ...(toppedOut ? [{ type: "ToppedOut" } as const] : []),
+  ];
+  return { ...online, game: clearSentGarbage(next), outbox };
+};
+
+// handles a message of each type the relay server sends
+type ServerMessageHandler<T extends ServerMessage["type"]> = (
+  online: OnlineState,
+  message: Extract<ServerMessage, { type: T }>
+) => OnlineState;
+
+const ServerMessageHandlers: {
+  [type in ServerMessage["type"]]: ServerMessageHandler<type>;
+} = {
+  Room: (online, { code, player }) => ({
+    ...createOnlineState(online.config),
+    phase: "Room",
+    code,
+    player,
+    // the player who joins a room joins the player who created it
+    opponentJoined: player === 1,
+  }),
+  OpponentJoined: (online) => ({ ...online, opponentJoined: true }),
+  // the board is empty during the countdown and the match starts once it is over
+  Countdown: (online, { seed, startsIn }) => ({
+    ...online,
+    phase: "Countdown",
+    ready: false,
+    seed,
+    countdown: startsIn,
+    game: createInitialState(online.config, seed),
+    opponent: undefined,
+    winner: undefined,
+    error: undefined,
+  }),
+  // a board of another size than the board of the match cannot be drawn and is dropped
+  Snapshot: (online, { snapshot }) =>
+    snapshot.board.rows.length === getGridHeight(online.config) &&
+    snapshot.board.cells.every((row) => row.length === online.config.width)
+      ? { ...online, opponent: snapshot }
+      : online,
+  Attack: (online, { rows }) =>
+    online.phase === "Playing" && online.game
+      ? { ...online, game: receiveGarbage(online.game, rows) }
+      : online,
+  MatchOver: (online, { winner }) => ({ ...online, phase: "Over", winner }),
+  OpponentLeft: (online) => ({
+    ...createOnlineState(online.config),
+    game: online.game,
+    opponent: online.opponent,
+    error: "Your opponent left the room",
+  }),
+  Error: (online, { message }) => ({ ...online, error: message }),
+};
+
+// handles a lobby command of the player, which is sent to the relay server
+const stepCommand = (
+  online: OnlineState,
+  message: ClientMessage
+): OnlineState =>
+  online.phase === "Disconnected"
+    ? online
+    : message.type === "Leave"
+    ? { ...createOnlineState(online.config), outbox: [message] }
+    : {
+        ...online,
+        ready: message.type === "Ready" || online.ready,
+        error: undefined,
+        outbox: [message],
+      };
+
+/**
+ * Applies an event to a client of an online match: the lobby commands of the player, the messages of the relay server,
+ * the inputs of the player and the ticks of the game clock, and the loss of the connection.
+ * The messages to send to the relay server after the event are left in the outbox.
+ * @param online - The state of the client.
+ * @param event - The event.
+ * @returns The new state of the client.
+ */
+export const stepOnline = (
+  online: OnlineState,
+  event: OnlineEvent
+): OnlineState => {
+  const state = online.outbox.length > 0 ? { ...online, outbox: [] } : online;
+  switch (event.type) {
+    case "Command":
+      return stepCommand(state, event.message);
+    case "Server":
+      return (
+        ServerMessageHandlers[event.message.type] as ServerMessageHandler<
+          ServerMessage["type"]
+        >
+      )(state, event.message);
+    case "Game":
+      return stepGame(state, event.event);
+    case "Disconnected":
+      return {
+        ...state,
+        phase: "Disconnected",
+        error: "Lost the connection to the relay server",
+      };
+  }
+};
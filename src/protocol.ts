@@ -0,0 +1,187 @@
+import { MAX_BOARD_WIDTH } from "./board";
+import { SHAPE_TYPES } from "./shapes";
+import { ORIENTATIONS } from "./srs";
+import { ClientMessage, ServerMessage } from "./types";
+
+// a message as it was read, before it is known to be a message of the protocol
+type UncheckedMessage = Readonly<Record<string, unknown>>;
+
+// checks if a value is a number of garbage rows
+const isRowCount = (rows: unknown): boolean =>
+  typeof rows === "number" && Number.isInteger(rows) && rows > 0;
+
+// checks if a value is a number of at least 0, e.g. a score or a bitmask of a row of the board
+const isAmount = (value: unknown): boolean =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+// checks if a value is a shape type
+const isShapeType = (shape: unknown): boolean =>
+  typeof shape === "string" && (SHAPE_TYPES as string[]).includes(shape);
+
+// checks if a value is a piece with a shape type, an orientation and a position on the grid
+const isPiece = (piece: unknown): boolean => {
+  const unchecked = piece as UncheckedMessage | null;
+  const position = unchecked?.position as UncheckedMessage | null | undefined;
+  return (
+    typeof unchecked === "object" &&
+    unchecked !== null &&
+    isShapeType(unchecked.shape) &&
+    typeof unchecked.orientation === "string" &&
+    (ORIENTATIONS as string[]).includes(unchecked.orientation) &&
+    typeof position === "object" &&
+    position !== null &&
+    Number.isInteger(position.x) &&
+    Number.isInteger(position.y)
+  );
+};
+
+// checks if a value is a board whose rows all have the same number of cells, each empty or taken by a block or garbage
+const isBoard = (board: unknown): boolean => {
+  const unchecked = board as UncheckedMessage | null;
+  if (
+    typeof unchecked !== "object" ||
+    unchecked === null ||
+    !Array.isArray(unchecked.rows) ||
+    !Array.isArray(unchecked.cells) ||
+    unchecked.rows.length !== unchecked.cells.length
+  ) {
+    return false;
+  }
+  const cells: unknown[] = unchecked.cells;
+  const width = Array.isArray(cells[0]) ? cells[0].length : 0;
+  return (
+    unchecked.rows.every(
+      (row: unknown) => isAmount(row) && Number.isInteger(row)
+    ) &&
+    width <= MAX_BOARD_WIDTH &&
+    cells.every(
+      (cellRow) =>
+        Array.isArray(cellRow) &&
+        cellRow.length === width &&
+        cellRow.every(
+          (cell: unknown) =>
+            cell === null || cell === "Garbage" || isShapeType(cell)
+        )
+    )
+  );
+};
+
+/**
+ * Checks if a value is a board snapshot with every field the board and the info panel of the opponent are drawn from,
+ * so that a malformed message of the opponent cannot break the view. Whether the board fits the config is checked once it is received.
+ * @param snapshot - The snapshot of the message.
+ * @returns Whether the value is a board snapshot.
+ */
+const isSnapshot = (snapshot: unknown): boolean => {
+  const unchecked = snapshot as UncheckedMessage | null;
+  if (typeof unchecked !== "object" || unchecked === null) {
+    return false;
+  }
+  const lastClear = unchecked.lastClear as UncheckedMessage | null | undefined;
+  return (
+    isBoard(unchecked.board) &&
+    (unchecked.currentBlock === undefined || isPiece(unchecked.currentBlock)) &&
+    Array.isArray(unchecked.nextBlocks) &&
+    unchecked.nextBlocks.every(isPiece) &&
+    (unchecked.holdBlock === undefined || isShapeType(unchecked.holdBlock)) &&
+    typeof unchecked.canHold === "boolean" &&
+    [
+      unchecked.score,
+      unchecked.level,
+      unchecked.lines,
+      unchecked.elapsed,
+      unchecked.pendingGarbage,
+    ].every(isAmount) &&
+    Array.isArray(unchecked.clearingRows) &&
+    unchecked.clearingRows.every(Number.isInteger) &&
+    typeof unchecked.gameEnd === "boolean" &&
+    (lastClear === undefined ||
+      (typeof lastClear === "object" &&
+        lastClear !== null &&
+        typeof lastClear.type === "string" &&
+        typeof lastClear.backToBack === "boolean" &&
+        isAmount(lastClear.combo)))
+  );
+};
+
+// checks the fields of each type of message a client sends
+const ClientMessageChecks: {
+  [type in ClientMessage["type"]]: (message: UncheckedMessage) => boolean;
+} = {
+  Create: () => true,
+  Join: (message) => typeof message.code === "string",
+  Ready: () => true,
+  Snapshot: (message) => isSnapshot(message.snapshot),
+  Attack: (message) => isRowCount(message.rows),
+  ToppedOut: () => true,
+  Leave: () => true,
+};
+
+// checks the fields of each type of message the relay server sends
+const ServerMessageChecks: {
+  [type in ServerMessage["type"]]: (message: UncheckedMessage) => boolean;
+} = {
+  Room: (message) =>
+    typeof message.code === "string" &&
+    (message.player === 0 || message.player === 1),
+  OpponentJoined: () => true,
+  Countdown: (message) =>
+    typeof message.seed === "number" && typeof message.startsIn === "number",
+  Snapshot: (message) => isSnapshot(message.snapshot),
+  Attack: (message) => isRowCount(message.rows),
+  MatchOver: (message) => message.winner === 0 || message.winner === 1,
+  OpponentLeft: () => true,
+  Error: (message) => typeof message.message === "string",
+};
+
+/**
+ * Parses a message of the online protocol with the checks of its type.
+ * @param json - The JSON text of the message.
+ * @param checks - The checks of the fields of each type of message.
+ * @returns The message.
+ * @throws Error if the text is not a message with the fields of its type.
+ */
+const parseMessage = <T>(
+  json: string,
+  checks: Readonly<Record<string, (message: UncheckedMessage) => boolean>>
+): T => {
+  const message: unknown = JSON.parse(json);
+  const unchecked = message as UncheckedMessage | null;
+  if (
+    typeof unchecked !== "object" ||
+    unchecked === null ||
+    typeof unchecked.type !== "string" ||
+    !Object.keys(checks).includes(unchecked.type) ||
+    !checks[unchecked.type](unchecked)
+  ) {
+    throw new Error("Not a message of the online protocol");
+  }
+  return message as T;
+};
+
+/**
+ * Parses a message a client sent to the relay server.
+ * @param json - The JSON text of the message.
+ * @returns The message.
+ * @throws Error if the text is not a client message.
+ */
+export const parseClientMessage = (json: string): ClientMessage =>
+  parseMessage(json, ClientMessageChecks);
+
+/**
+ * Parses a message the relay server sent to a client.
+ * @param json - The JSON text of the message.
+ * @returns The message.
+ * @throws Error if the text is not a server message.
+ */
+export const parseServerMessage = (json: string): ServerMessage =>
+  parseMessage(json, ServerMessageChecks);
+
+/**
+ * Serializes a message of the online protocol to send it over a WebSocket.
+ * @param message - The message.
+ * @returns The JSON text of the message.
+ */
+export const serializeMessage = (
+  message: ClientMessage | ServerMessage
+): string => JSON.stringify(message);
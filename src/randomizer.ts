@@ -0,0 +1,118 @@
+import { SHAPE_TYPES } from "./shapes";
+import {
+  PieceGenerator,
+  RandomizerState,
+  RandomizerType,
+  ShapeType,
+} from "./types";
+import { randomInt } from "./util";
+
+// number of times the history randomizer re-rolls a piece that is in its history
+const HISTORY_ROLLS = 4;
+
+// the history randomizer starts with S and Z pieces in its history so that the first piece is never an S or Z
+const INITIAL_HISTORY: ReadonlyArray<ShapeType> = ["Z", "S", "Z", "S"];
+
+/**
+ * Creates the initial state of a randomizer of the given type.
+ * @param type - The piece sequence strategy to use.
+ * @returns The initial randomizer state.
+ */
+export const createRandomizer = (type: RandomizerType): RandomizerState => ({
+  type,
+  bag: [],
+  history: INITIAL_HISTORY,
+});
+
+/**
+ * Picks a uniformly random shape type.
+ * @param seed - The current seed.
+ * @returns The shape type and the next seed.
+ */
+const randomShape = (seed: number): { shape: ShapeType; seed: number } => {
+  const { value, seed: nextSeed } = randomInt(0, SHAPE_TYPES.length - 1, seed);
+  return { shape: SHAPE_TYPES[value], seed: nextSeed };
+};
+
+/**
+ * Shuffles the shape types using a Fisher-Yates shuffle driven by the given seed.
+ * @param seed - The current seed.
+ * @returns The shuffled shape types and the next seed.
+ */
+const shuffleShapes = (
+  seed: number
+): { bag: ReadonlyArray<ShapeType>; seed: number } =>
+  SHAPE_TYPES.reduceRight(
+    ({ bag, seed }, _, index) => {
+      const { value: swapIndex, seed: nextSeed } = randomInt(0, index, seed);
+      const swapped = bag.map((shape, i) =>
+        i === index ? bag[swapIndex] : i === swapIndex ? bag[index] : shape
+      );
+      return { bag: swapped, seed: nextSeed };
+    },
+    { bag: SHAPE_TYPES, seed }
+  );
+
+// every shape type is equally likely for every piece, independent of the previous pieces
+const uniformGenerator: PieceGenerator = (randomizer, seed) => ({
+  ...randomShape(seed),
+  randomizer,
+});
+
+// all 7 shape types are put in a bag in random order and dealt one by one, a new bag is shuffled once it is empty
+const sevenBagGenerator: PieceGenerator = (randomizer, seed) => {
+  const { bag, seed: nextSeed } =
+    randomizer.bag.length > 0
+      ? { bag: randomizer.bag, seed }
+      : shuffleShapes(seed);
+  const [shape, ...rest] = bag;
+  return { shape, randomizer: { ...randomizer, bag: rest }, seed: nextSeed };
+};
+
+// TGM style randomizer: a random shape is re-rolled up to HISTORY_ROLLS times while it is one of the last 4 pieces
+const historyGenerator: PieceGenerator = (randomizer, seed) => {
+  const roll = (
+    attempt: number,
+    seed: number
+  ): { shape: ShapeType; seed: number } => {
+    const rolled = randomShape(seed);
+    return attempt < HISTORY_ROLLS && randomizer.history.includes(rolled.shape)
+      ? roll(attempt + 1, rolled.seed)
+      : rolled;
+  };
+  const { shape, seed: nextSeed } = roll(1, seed);
+  return {
+    shape,
+    randomizer: {
+      ...randomizer,
+      history: [...randomizer.history.slice(1), shape],
+    },
+    seed: nextSeed,
+  };
+};
+
+/**
+ * The piece sequence strategies that can be selected.
+ */
+export const pieceGenerators: { [key in RandomizerType]: PieceGenerator } = {
+  Uniform: uniformGenerator,
+  SevenBag: sevenBagGenerator,
+  History: historyGenerator,
+};
+
+/**
+ * Generates the next shape type using the strategy of the given randomizer.
+ * @param randomizer - The current randomizer state.
+ * @param seed - The current seed.
+ * @returns The next shape type, the new randomizer state and the next seed.
+ */
+export const nextShape: PieceGenerator = (randomizer, seed) =>
+  pieceGenerators[randomizer.type](randomizer, seed);
+
+/**
+ * Checks if the given name is one of the piece sequence strategies, e.g. when it is read from the page URL.
+ * @param name - The name to check.
+ * @returns Whether the name is a valid randomizer type.
+ */
+export const isRandomizerType = (name: string | null): name is RandomizerType =>
+  name !== null && Object.keys(pieceGenerators).includes(name);
@@ -0,0 +1,238 @@
+import { Online } from "./constants";
+import {
+  ClientMessage,
+  PlayerIndex,
+  RelayOutput,
+  RelayRoom,
+  RelayState,
+  ServerMessage,
+} from "./types";
+import { randomInt } from "./util";
+
+// the new state of the relay server after a message, and the messages it sends in reply
+type RelayResult = Readonly<{
+  newState: RelayState;
+  outputs: ReadonlyArray<RelayOutput>;
+}>;
+
+/**
+ * Creates the state of a relay server without any rooms.
+ * @param countdown - Time in ms from both players being ready to the start of a match.
+ * @returns The state of the relay server.
+ */
+export const createRelayState = (
+  countdown: number = Online.COUNTDOWN_MS
+): RelayState => ({ rooms: {}, countdown });
+
+// finds the room a client is in
+const findRoom = (state: RelayState, client: number): RelayRoom | undefined =>
+  Object.values(state.rooms).find((room) => room.clients.includes(client));
+
+// the messages for every client of a room but one, e.g. for the opponent of the client that sent a message
+const toOthers = (
+  room: RelayRoom,
+  client: number,
+  message: ServerMessage
+): ReadonlyArray<RelayOutput> =>
+  room.clients
+    .filter((other) => other !== client)
+    .map((other) => ({ client: other, message }));
+
+// the messages for every client of a room
+const toAll = (
+  room: RelayRoom,
+  message: ServerMessage
+): ReadonlyArray<RelayOutput> =>
+  room.clients.map((client) => ({ client, message }));
+
+const withRoom = (state: RelayState, room: RelayRoom): RelayState => ({
+  ...state,
+  rooms: { ...state.rooms, [room.code]: room },
+});
+
+const withoutRoom = (state: RelayState, code: string): RelayState => ({
+  ...state,
+  rooms: Object.fromEntries(
+    Object.entries(state.rooms).filter(([other]) => other !== code)
+  ),
+});
+
+const error = (
+  state: RelayState,
+  client: number,
+  message: string
+): RelayResult => ({
+  newState: state,
+  outputs: [{ client, message: { type: "Error", message } }],
+});
+
+/**
+ * Picks the code of a new room: random letters that no other room has.
+ * @param state - The state of the relay server.
+ * @param seed - The seed for the random letters.
+ * @returns The code.
+ */
+const createRoomCode = (state: RelayState, seed: number): string => {
+  const letters = Array.from({ length: Online.ROOM_CODE_LENGTH }).reduce<{
+    code: string;
+    seed: number;
+  }>(
+    (picked) => {
+      const letter = randomInt(
+        0,
+        Online.ROOM_CODE_LETTERS.length - 1,
+        picked.seed
+      );
+      return {
+        code: picked.code + Online.ROOM_CODE_LETTERS[letter.value],
+        seed: letter.seed,
+      };
+    },
+    { code: "", seed }
+  );
+  return letters.code in state.rooms
+    ? createRoomCode(state, letters.seed)
+    : letters.code;
+};
+
+/**
+ * Takes a client out of its room. The room is closed and the opponent is told, a room cannot be played alone.
+ * @param state - The state of the relay server.
+ * @param client - The client that left or lost its connection.
+ * @returns The new state and the messages for the opponent.
+ */
+export const handleRelayDisconnect = (
+  state: RelayState,
+  client: number
+): RelayResult => {
+  const room = findRoom(state, client);
+  return room
+    ? {
+        newState: withoutRoom(state, room.code),
+        outputs: toOthers(room, client, { type: "OpponentLeft" }),
+      }
+    : { newState: state, outputs: [] };
+};
+
+// handles a message of each type a client sends
+type RelayHandler<T extends ClientMessage["type"]> = (
+  state: RelayState,
+  client: number,
+  message: Extract<ClientMessage, { type: T }>,
+  seed: number
+) => RelayResult;
+
+// a client that creates or joins a room leaves the room it was in
+const RelayHandlers: { [type in ClientMessage["type"]]: RelayHandler<type> } = {
+  Create: (state, client, _, seed) => {
+    const left = handleRelayDisconnect(state, client);
+    const code = createRoomCode(left.newState, seed);
+    return {
+      newState: withRoom(left.newState, {
+        code,
+        clients: [client],
+        ready: [],
+        playing: false,
+      }),
+      outputs: [
+        ...left.outputs,
+        { client, message: { type: "Room", code, player: 0 } },
+      ],
+    };
+  },
+  Join: (state, client, message) => {
+    const code = message.code.trim().toUpperCase();
+    const room = state.rooms[code];
+    if (!room) {
+      return error(state, client, `Room ${code} does not exist`);
+    }
+    if (room.clients.includes(client)) {
+      return { newState: state, outputs: [] };
+    }
+    if (room.clients.length >= 2) {
+      return error(state, client, `Room ${code} is full`);
+    }
+    const left = handleRelayDisconnect(state, client);
+    const joined = { ...room, clients: [...room.clients, client] };
+    return {
+      newState: withRoom(left.newState, joined),
+      outputs: [
+        ...left.outputs,
+        ...toOthers(joined, client, { type: "OpponentJoined" }),
+        { client, message: { type: "Room", code, player: 1 } },
+      ],
+    };
+  },
+  Ready: (state, client, _, seed) => {
+    const room = findRoom(state, client);
+    if (!room) {
+      return error(state, client, "Not in a room");
+    }
+    if (room.playing || room.ready.includes(client)) {
+      return { newState: state, outputs: [] };
+    }
+    const ready = [...room.ready, client];
+    // the match starts once both players are ready, with a seed both of them play with
+    return ready.length === 2
+      ? {
+          newState: withRoom(state, { ...room, ready: [], playing: true }),
+          outputs: toAll(room, {
+            type: "Countdown",
+            seed,
+            startsIn: state.countdown,
+          }),
+        }
+      : { newState: withRoom(state, { ...room, ready }), outputs: [] };
+  },
+  // the boards and the garbage are only relayed during a match
+  Snapshot: (state, client, message) => {
+    const room = findRoom(state, client);
+    return {
+      newState: state,
+      outputs: room?.playing ? toOthers(room, client, message) : [],
+    };
+  },
+  Attack: (state, client, message) => {
+    const room = findRoom(state, client);
+    return {
+      newState: state,
+      outputs: room?.playing ? toOthers(room, client, message) : [],
+    };
+  },
+  // the first player to top out loses
+  ToppedOut: (state, client) => {
+    const room = findRoom(state, client);
+    if (!room?.playing) {
+      return { newState: state, outputs: [] };
+    }
+    const winner: PlayerIndex = room.clients.indexOf(client) === 0 ? 1 : 0;
+    return {
+      newState: withRoom(state, { ...room, playing: false }),
+      outputs: toAll(room, { type: "MatchOver", winner }),
+    };
+  },
+  Leave: (state, client) => handleRelayDisconnect(state, client),
+};
+
+/**
+ * Handles a message a client sent to the relay server: rooms are created and joined by their code,
+ * a match starts with a countdown once both players of a room are ready, and during a match the boards,
+ * the garbage and the top out of each player are relayed to the opponent.
+ * @param state - The state of the relay server.
+ * @param client - The id of the client that sent the message.
+ * @param message - The message.
+ * @param seed - A fresh seed, for the code of a new room and the seed of a new match.
+ * @returns The new state and the messages to send.
+ */
+export const handleRelayMessage = (
+  state: RelayState,
+  client: number,
+  message: ClientMessage,
+  seed: number
+): RelayResult =>
+  (RelayHandlers[message.type] as RelayHandler<ClientMessage["type"]>)(
+    state,
+    client,
+    message,
+    seed
+  );
@@ -0,0 +1,6 @@
+import { createRelayServer } from "./relayServer";
+
+// Starts the relay server from the command line with npm run relay, on the port of the PORT environment variable if it is set
+createRelayServer(Number(process.env.PORT) || undefined).then(({ port }) =>
+  console.log(`Relay server listening on ws://localhost:${port}`)
+);
@@ -0,0 +1,79 @@
+import { AddressInfo } from "net";
+import { WebSocket, WebSocketServer } from "ws";
+import { Online } from "./constants";
+import { parseClientMessage, serializeMessage } from "./protocol";
+import {
+  createRelayState,
+  handleRelayDisconnect,
+  handleRelayMessage,
+} from "./relay";
+import { RelayOutput, RelayServer } from "./types";
+
+/**
+ * Starts the relay server of online matches: a WebSocket server that keeps the rooms and relays the messages of each player to the opponent.
+ * The rooms are handled by the pure functions of relay.ts, the server only holds their state and the sockets of the clients.
+ * Every client runs its own game, so the server never runs a game itself.
+ * @param port - The port to listen on, 0 for a port picked by the system, e.g. in tests.
+ * @param countdown - Time in ms from both players being ready to the start of a match.
+ * @returns A promise of the relay server, once it listens.
+ */
+export const createRelayServer = (
+  port: number = Online.DEFAULT_PORT,
+  countdown: number = Online.COUNTDOWN_MS
+): Promise<RelayServer> =>
+  new Promise((resolve) => {
+    const server = new WebSocketServer({ port });
+    const sockets = new Map<number, WebSocket>();
+    let state = createRelayState(countdown);
+    let nextClient = 0;
+
+    const deliver = (outputs: ReadonlyArray<RelayOutput>) =>
+      outputs.forEach(({ client, message }) =>
+        sockets.get(client)?.send(serializeMessage(message))
+      );
+
+    server.on("connection", (socket) => {
+      const client = nextClient++;
+      sockets.set(client, socket);
+
+      // messages that are not part of the protocol are answered with an error and otherwise ignored
+      socket.on("message", (data) => {
+        try {
+          const { newState, outputs } = handleRelayMessage(
+            state,
+            client,
+            parseClientMessage(String(data)),
+            // the seeds are taken from the current time here, at the edge of the server, so that the rooms stay pure
+            Date.now()
+          );
+          state = newState;
+          deliver(outputs);
+        } catch (error) {
+          deliver([
+            {
+              client,
+              message: { type: "Error", message: (error as Error).message },
+            },
+          ]);
+        }
+      });
+
+      socket.on("close", () => {
+        sockets.delete(client);
+        const { newState, outputs } = handleRelayDisconnect(state, client);
+        state = newState;
+        deliver(outputs);
+      });
+    });
+
+    server.on("listening", () =>
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        close: () =>
+          new Promise((closed) => {
+            sockets.forEach((socket) => socket.terminate());
+            server.close(() => closed());
+          }),
+      })
+    );
+  });
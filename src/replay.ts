@@ -0,0 +1,293 @@
+import { MAX_BOARD_WIDTH } from "./board";
+import { isGameModeName, Scores } from "./constants";
+import { createInitialState, gameActions } from "./game";
+import { isRandomizerType } from "./randomizer";
+import {
+  GameConfig,
+  GameEvent,
+  PlaybackControl,
+  PlaybackState,
+  Replay,
+  ReplayEventIndex,
+  State,
+} from "./types";
+
+// version of the replay format written by the recorder, bumped whenever the format or the game rules change in a way that breaks old replays
+export const REPLAY_VERSION = 4;
+
+/**
+ * Creates an empty replay for a game that starts with the given config and seed.
+ * @param config - The config of the recorded game.
+ * @param seed - The seed of the recorded game.
+ * @returns The empty replay.
+ */
+export const createReplay = (config: GameConfig, seed: number): Replay => ({
+  version: REPLAY_VERSION,
+  seed,
+  config,
+  ticks: 0,
+  events: [],
+});
+
+/**
+ * Records a game event into a replay.
+ * Ticks are only counted, input events are stored together with the number of ticks that happened before them.
+ * @param replay - The replay recorded so far.
+ * @param event - The game event to record.
+ * @returns The new replay with the event recorded.
+ */
+export const recordEvent = (replay: Replay, event: GameEvent): Replay =>
+  event === "Tick"
+    ? { ...replay, ticks: replay.ticks + 1 }
+    : { ...replay, events: [...replay.events, { tick: replay.ticks, event }] };
+
+/**
+ * Serializes a replay into a JSON replay file.
+ * @param replay - The replay.
+ * @returns The JSON text of the replay.
+ */
+export const serializeReplay = (replay: Replay): string =>
+  JSON.stringify(replay);
+
+// checks if a value read from a replay file is a whole number of at least min
+const isCount = (value: unknown, min: number): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= min;
+
+// checks if a value read from a replay file is a time in ms or a factor, a finite number of at least 0
+const isAmount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/**
+ * Checks if a config read from a replay file is one the game can be played with.
+ * @param config - The config of the replay.
+ * @returns Whether the config is a valid game config.
+ */
+const isGameConfig = (config: unknown): config is GameConfig => {
+  if (typeof config !== "object" || config === null) {
+    return false;
+  }
+  const {
+    width,
+    height,
+    bufferHeight,
+    gravityCurve,
+    lockDelay,
+    lockResetLimit,
+    lineClearDelay,
+    entryDelay,
+    softDropFactor,
+    linesPerLevel,
+    previewCount,
+    scoring,
+    randomizer,
+    mode,
+  } = config as Record<keyof GameConfig, unknown>;
+  return (
+    isCount(width, 4) &&
+    width <= MAX_BOARD_WIDTH &&
+    isCount(height, 1) &&
+    isCount(bufferHeight, 2) &&
+    Array.isArray(gravityCurve) &&
+    gravityCurve.length > 0 &&
+    gravityCurve.every((gravity) => isAmount(gravity) && gravity > 0) &&
+    isAmount(lockDelay) &&
+    isCount(lockResetLimit, 0) &&
+    isAmount(lineClearDelay) &&
+    isAmount(entryDelay) &&
+    isAmount(softDropFactor) &&
+    softDropFactor >= 1 &&
+    isCount(linesPerLevel, 1) &&
+    isCount(previewCount, 1) &&
+    previewCount <= 6 &&
+    typeof scoring === "object" &&
+    scoring !== null &&
+    Object.keys(Scores).every((type) =>
+      isAmount((scoring as Record<string, unknown>)[type])
+    ) &&
+    typeof randomizer === "string" &&
+    isRandomizerType(randomizer) &&
+    isGameModeName(mode)
+  );
+};
+
+/**
+ * Parses a JSON replay file.
+ * @param json - The JSON text of the replay.
+ * @returns The replay.
+ * @throws Error if the text is not a replay, the replay was recorded with another version of the format,
+ * or its seed, ticks, config or events are not valid.
+ */
+export const parseReplay = (json: string): Replay => {
+  const replay = JSON.parse(json) as Replay;
+  if (
+    typeof replay !== "object" ||
+    replay === null ||
+    !Array.isArray(replay.events)
+  ) {
+    throw new Error("Not a replay file");
+  }
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error(
+      `Unsupported replay version ${replay.version}, expected ${REPLAY_VERSION}`
+    );
+  }
+  if (!Number.isSafeInteger(replay.seed)) {
+    throw new Error("The seed of the replay is not a whole number");
+  }
+  if (!isCount(replay.ticks, 0)) {
+    throw new Error("The ticks of the replay are not a whole number");
+  }
+  if (!isGameConfig(replay.config)) {
+    throw new Error("The config of the replay is not a valid game config");
+  }
+  // the events are recorded in the order of their ticks, which playing them back relies on
+  if (
+    !replay.events.every(
+      (replayEvent, index) =>
+        typeof replayEvent === "object" &&
+        replayEvent !== null &&
+        isCount(replayEvent.tick, replay.events[index - 1]?.tick ?? 0) &&
+        replayEvent.tick <= replay.ticks &&
+        replayEvent.event !== "Tick" &&
+        Object.keys(gameActions).includes(replayEvent.event)
+    )
+  ) {
+    throw new Error("The events of the replay are not valid");
+  }
+  return replay;
+};
+
+/**
+ * Groups the input events of a replay by the tick they were recorded at, so that playing it back
+ * does not look through all of them on every tick.
+ * @param replay - The replay.
+ * @returns The input events of each tick that has any, in the order they were recorded.
+ */
+export const indexReplayEvents = (replay: Replay): ReplayEventIndex =>
+  replay.events.reduce<ReplayEventIndex>(
+    (index, { tick, event }) => ({
+      ...index,
+      [tick]: [...(index[tick] ?? []), event],
+    }),
+    {}
+  );
+
+/**
+ * Gets the game events that play a replay back from one tick to another, in the order they were recorded.
+ * The input events recorded after the last tick are included once the end of the replay is reached.
+ * @param replay - The replay.
+ * @param events - The input events of the replay indexed by tick.
+ * @param fromTick - The tick to start from.
+ * @param toTick - The tick to stop at.
+ * @returns The game events between the two ticks.
+ */
+export const getReplayEvents = (
+  replay: Replay,
+  events: ReplayEventIndex,
+  fromTick: number,
+  toTick: number
+): GameEvent[] => [
+  ...Array.from({ length: Math.max(toTick - fromTick, 0) }).flatMap(
+    (_, index): GameEvent[] => [...(events[fromTick + index] ?? []), "Tick"]
+  ),
+  ...(toTick === replay.ticks ? events[toTick] ?? [] : []),
+];
+
+/**
+ * Feeds game events through the game actions.
+ * @param state - The state to start from.
+ * @param events - The game events.
+ * @returns The game state after all the events.
+ */
+const applyEvents = (state: State, events: GameEvent[]): State =>
+  events.reduce((s, event) => gameActions[event](s), state);
+
+/**
+ * Plays a replay back from the start up to the given tick.
+ * Since the game is deterministic, this recreates the exact state the recorded game was in at that tick.
+ * @param replay - The replay.
+ * @param tick - The tick to stop at, the end of the replay by default.
+ * @param events - The input events of the replay indexed by tick, indexed from the replay if not given.
+ * @returns The game state at the given tick.
+ */
+export const playReplay = (
+  replay: Replay,
+  tick: number = replay.ticks,
+  events: ReplayEventIndex = indexReplayEvents(replay)
+): State =>
+  applyEvents(
+    createInitialState(replay.config, replay.seed),
+    getReplayEvents(replay, events, 0, Math.min(tick, replay.ticks))
+  );
+
+/**
+ * Creates the initial state of the replay player, paused at the start of the replay.
+ * @param replay - The replay to play back.
+ * @returns The initial playback state.
+ */
+export const createPlayback = (replay: Replay): PlaybackState => {
+  const events = indexReplayEvents(replay);
+  return {
+    replay,
+    events,
+    tick: 0,
+    paused: true,
+    speed: 1,
+    state: playReplay(replay, 0, events),
+  };
+};
+
+/**
+ * Advances the replay player by one tick, which plays back as many recorded ticks as the playback speed.
+ * @param playback - The current playback state.
+ * @returns The new playback state.
+ */
+export const advancePlayback = (playback: PlaybackState): PlaybackState => {
+  if (playback.paused || playback.tick >= playback.replay.ticks) {
+    return playback;
+  }
+
+  const tick = Math.min(playback.tick + playback.speed, playback.replay.ticks);
+  return {
+    ...playback,
+    tick,
+    state: applyEvents(
+      playback.state,
+      getReplayEvents(playback.replay, playback.events, playback.tick, tick)
+    ),
+  };
+};
+
+/**
+ * Applies a control of the replay player.
+ * Seeking plays the replay back from the start, so seeking backwards works as well as forwards.
+ * @param playback - The current playback state.
+ * @param control - The control to apply.
+ * @returns The new playback state.
+ */
+export const controlPlayback = (
+  playback: PlaybackState,
+  control: PlaybackControl
+): PlaybackState => {
+  switch (control.type) {
+    case "TogglePause":
+      return { ...playback, paused: !playback.paused };
+    case "Speed":
+      return { ...playback, speed: control.speed };
+    case "Seek": {
+      // a tick that is not a number, e.g. text typed into the seek field, leaves the player where it is
+      if (!Number.isFinite(control.tick)) {
+        return playback;
+      }
+      const tick = Math.max(
+        0,
+        Math.min(Math.round(control.tick), playback.replay.ticks)
+      );
+      return {
+        ...playback,
+        tick,
+        state: playReplay(playback.replay, tick, playback.events),
+      };
+    }
+  }
+};
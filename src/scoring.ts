@@ -0,0 +1,154 @@
+import { Attacks, GameModes } from "./constants";
+import { isCellOccupied } from "./generics";
+import {
+  BlockPosition,
+  Board,
+  ClearInfo,
+  ClearType,
+  CubePosition,
+  GameConfig,
+  Orientation,
+  Piece,
+  State,
+  TSpin,
+} from "./types";
+
+// the 4 corners around the center of the T shape, relative to its bounding box
+const T_CORNERS: ReadonlyArray<CubePosition> = [
+  { x: 0, y: 0 },
+  { x: 2, y: 0 },
+  { x: 0, y: 2 },
+  { x: 2, y: 2 },
+];
+
+// the 2 corners on the side the T shape is pointing to in each orientation
+const T_FRONT_CORNERS: { [orientation in Orientation]: BlockPosition } = {
+  "0": [
+    { x: 0, y: 0 },
+    { x: 2, y: 0 },
+  ],
+  R: [
+    { x: 2, y: 0 },
+    { x: 2, y: 2 },
+  ],
+  "2": [
+    { x: 0, y: 2 },
+    { x: 2, y: 2 },
+  ],
+  L: [
+    { x: 0, y: 0 },
+    { x: 0, y: 2 },
+  ],
+};
+
+// a t-spin that needed the last SRS kick test always counts as a full t-spin
+const LAST_KICK = 4;
+
+// the type of clear for each number of cleared rows, undefined when nothing scores
+const CLEAR_TYPES: { [tSpin in TSpin]: ReadonlyArray<ClearType | undefined> } =
+  {
+    None: [undefined, "SINGLE", "DOUBLE", "TRIPLE", "TETRIS"],
+    Mini: ["MINI T-SPIN", "MINI T-SPIN SINGLE", "MINI T-SPIN DOUBLE"],
+    Full: ["T-SPIN", "T-SPIN SINGLE", "T-SPIN DOUBLE", "T-SPIN TRIPLE"],
+  };
+
+/**
+ * Detects a t-spin with the 3-corner rule: the piece is a T, its last movement was a rotation
+ * and at least 3 of the 4 corners around its center are occupied by locked blocks or walls.
+ * It is a full t-spin if both corners it points to are occupied (or the last kick test was used), otherwise a mini t-spin.
+ * @param piece - The piece that is about to lock.
+ * @param board - The board with the locked blocks, without the piece.
+ * @param config - The game config.
+ * @returns The kind of t-spin.
+ */
+export const detectTSpin = (
+  piece: Piece,
+  board: Board,
+  config: GameConfig
+): TSpin => {
+  if (piece.shape !== "T" || piece.kick === undefined) {
+    return "None";
+  }
+
+  const isCornerOccupied = (corner: CubePosition) =>
+    isCellOccupied(
+      { x: piece.position.x + corner.x, y: piece.position.y + corner.y },
+      board,
+      config
+    );
+
+  if (T_CORNERS.filter(isCornerOccupied).length < 3) {
+    return "None";
+  }
+
+  return T_FRONT_CORNERS[piece.orientation].every(isCornerOccupied) ||
+    piece.kick === LAST_KICK
+    ? "Full"
+    : "Mini";
+};
+
+/**
+ * Gets the level for the given number of cleared rows. The game starts at level 1 and stays there in a mode without level ups.
+ * @param lines - The total number of cleared rows.
+ * @param config - The game config.
+ * @returns The level.
+ */
+export const getLevel = (lines: number, config: GameConfig): number =>
+  GameModes[config.mode].levelUp
+    ? 1 + Math.floor(lines / config.linesPerLevel)
+    : 1;
+
+/**
+ * Scores a locked piece: the clear type is looked up by the number of cleared rows and t-spin,
+ * multiplied by the level, with the back-to-back bonus for consecutive tetrises and t-spins and the combo bonus for consecutive line clears.
+ * @param state - The game state before the piece locked.
+ * @param clearedRows - The number of rows the piece cleared.
+ * @param tSpin - The kind of t-spin the piece locked with.
+ * @returns The new scoring related fields of the game state.
+ */
+export const scoreClear = (
+  state: State,
+  clearedRows: number,
+  tSpin: TSpin
+): Pick<
+  State,
+  "score" | "level" | "lines" | "combo" | "backToBack" | "lastClear"
+> => {
+  const type = CLEAR_TYPES[tSpin][clearedRows];
+  const combo = clearedRows > 0 ? state.combo + 1 : -1;
+
+  // If nothing scores, only the combo is broken
+  if (!type) {
+    const { score, level, lines, backToBack, lastClear } = state;
+    return { score, level, lines, combo, backToBack, lastClear };
+  }
+
+  const scores = state.config.scoring;
+  const isDifficult = clearedRows === 4 || tSpin !== "None";
+  const backToBack = clearedRows > 0 && isDifficult && state.backToBack;
+  const clearScore =
+    scores[type] * (backToBack ? scores.BACK_TO_BACK_MULTIPLIER : 1);
+  const comboScore = combo > 0 ? scores.COMBO * combo : 0;
+  const lines = state.lines + clearedRows;
+
+  return {
+    score: state.score + Math.floor((clearScore + comboScore) * state.level),
+    level: getLevel(lines, state.config),
+    lines,
+    combo,
+    // a t-spin without cleared rows neither starts nor breaks a back-to-back chain
+    backToBack: clearedRows > 0 ? isDifficult : state.backToBack,
+    lastClear: { type, backToBack, combo },
+  };
+};
+
+/**
+ * Gets the number of garbage rows a line clear sends to the opponent in versus:
+ * the rows of the clear type, one more for back-to-back and more for longer combos.
+ * @param clear - The line clear.
+ * @returns The number of garbage rows.
+ */
+export const getAttack = ({ type, backToBack, combo }: ClearInfo): number =>
+  Attacks[type] +
+  (backToBack ? Attacks.BACK_TO_BACK : 0) +
+  Attacks.COMBO[Math.min(combo, Attacks.COMBO.length - 1)];
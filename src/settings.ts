@@ -0,0 +1,114 @@
+import { DefaultInputSettings, DefaultKeyBindings } from "./constants";
+import { InputAction, InputSettings, Key, KeyBindings } from "./types";
+
+// the names of the keys that do not read well as their code
+const KeyNames: Record<Key, string> = {
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ShiftLeft: "Left Shift",
+  ShiftRight: "Right Shift",
+  ControlLeft: "Left Ctrl",
+  ControlRight: "Right Ctrl",
+};
+
+/**
+ * Gets the name of a key to show in the settings panel, e.g. "A" for "KeyA" or "1" for "Digit1".
+ * @param key - The key code.
+ * @returns The name of the key.
+ */
+export const getKeyName = (key: Key): string =>
+  KeyNames[key] ?? key.replace(/^(Key|Digit)/, "");
+
+// the actions keys can be bound to, in the order of the settings panel
+const InputActions = Object.keys(DefaultKeyBindings) as InputAction[];
+
+// creates key bindings with the keys given for each action
+const createKeyBindings = (
+  getKeys: (action: InputAction) => ReadonlyArray<Key>
+): KeyBindings =>
+  InputActions.reduce(
+    (keyBindings, action) => ({ ...keyBindings, [action]: getKeys(action) }),
+    {} as KeyBindings
+  );
+
+// checks if a string, e.g. read from a data attribute, is an action keys can be bound to
+export const isInputAction = (action: unknown): action is InputAction =>
+  typeof action === "string" &&
+  Object.keys(DefaultKeyBindings).includes(action);
+
+/**
+ * Binds a key to an action. A key can only be bound to one action, so it is unbound from any other action.
+ * @param settings - The input settings.
+ * @param action - The action to bind the key to.
+ * @param key - The key to bind.
+ * @returns The new input settings.
+ */
+export const bindKey = (
+  settings: InputSettings,
+  action: InputAction,
+  key: Key
+): InputSettings => ({
+  ...settings,
+  keyBindings: createKeyBindings((boundAction) => {
+    const keys = settings.keyBindings[boundAction].filter((k) => k !== key);
+    return boundAction === action ? [...keys, key] : keys;
+  }),
+});
+
+/**
+ * Unbinds all the keys of an action.
+ * @param settings - The input settings.
+ * @param action - The action.
+ * @returns The new input settings.
+ */
+export const clearKeys = (
+  settings: InputSettings,
+  action: InputAction
+): InputSettings => ({
+  ...settings,
+  keyBindings: { ...settings.keyBindings, [action]: [] },
+});
+
+// checks if a value read from the storage is a number of ms or a factor that can be used
+const isSetting = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/**
+ * Parses the input settings remembered in the local storage.
+ * Settings that are missing or invalid, e.g. saved by an older version of the game, fall back to the defaults.
+ * @param json - The JSON text of the settings, null if none were saved.
+ * @returns The input settings.
+ */
+export const parseInputSettings = (json: string | null): InputSettings => {
+  try {
+    const saved = JSON.parse(json ?? "{}") as Partial<InputSettings>;
+    const keyBindings = createKeyBindings((action) => {
+      const savedKeys: unknown = saved.keyBindings?.[action];
+      return Array.isArray(savedKeys) &&
+        savedKeys.every((key) => typeof key === "string")
+        ? savedKeys
+        : DefaultKeyBindings[action];
+    });
+    return {
+      keyBindings,
+      das: isSetting(saved.das) ? saved.das : DefaultInputSettings.das,
+      arr: isSetting(saved.arr) ? saved.arr : DefaultInputSettings.arr,
+      softDropFactor:
+        isSetting(saved.softDropFactor) && saved.softDropFactor >= 1
+          ? saved.softDropFactor
+          : DefaultInputSettings.softDropFactor,
+    };
+  } catch {
+    return DefaultInputSettings;
+  }
+};
+
+/**
+ * Serializes the input settings to remember them in the local storage.
+ * @param settings - The input settings.
+ * @returns The JSON text of the settings.
+ */
+export const serializeInputSettings = (settings: InputSettings): string =>
+  JSON.stringify(settings);
@@ -1,66 +1,257 @@
-import { Constants } from "./constants";
-import { BlockPosition } from "./types";
-import { randomInt } from "./util";
+import {
+  BlockPosition,
+  GameConfig,
+  Orientation,
+  Piece,
+  ShapeType,
+} from "./types";
 
 /**
- * Generates a random block position on the game grid.
- * @returns {BlockPosition} A block position represented as an array of {x, y} coordinates.
+ * All the tetris shape types.
  */
-export const generateRandomBlock = (): BlockPosition => {
-  const randomX = randomInt(0, Constants.GRID_WIDTH - 4); // -4 to ensure the block fits within the grid
-  const shapeType = randomInt(0, 6); // Randomly select a shape type
+export const SHAPE_TYPES: ReadonlyArray<ShapeType> = [
+  "I",
+  "J",
+  "L",
+  "O",
+  "S",
+  "T",
+  "Z",
+];
 
-  switch (shapeType) {
-    case 0: // I shape
-      return [
-        { x: randomX, y: 0 },
-        { x: randomX + 1, y: 0 },
-        { x: randomX + 2, y: 0 },
-        { x: randomX + 3, y: 0 },
-      ];
-    case 1: // J shape
-      return [
-        { x: randomX, y: 0 },
-        { x: randomX + 1, y: 0 },
-        { x: randomX + 2, y: 0 },
-        { x: randomX + 2, y: 1 },
-      ];
-    case 2: // L shape
-      return [
-        { x: randomX, y: 0 },
-        { x: randomX + 1, y: 0 },
-        { x: randomX + 2, y: 0 },
-        { x: randomX, y: 1 },
-      ];
-    case 3: // O shape
-      return [
-        { x: randomX, y: 0 },
-        { x: randomX + 1, y: 0 },
-        { x: randomX, y: 1 },
-        { x: randomX + 1, y: 1 },
-      ];
-    case 4: // S shape
-      return [
-        { x: randomX, y: 1 },
-        { x: randomX + 1, y: 1 },
-        { x: randomX + 1, y: 0 },
-        { x: randomX + 2, y: 0 },
-      ];
-    case 5: // T shape
-      return [
-        { x: randomX, y: 0 },
-        { x: randomX + 1, y: 0 },
-        { x: randomX + 2, y: 0 },
-        { x: randomX + 1, y: 1 },
-      ];
-    case 6: // Z shape
-      return [
-        { x: randomX, y: 0 },
-        { x: randomX + 1, y: 0 },
-        { x: randomX + 1, y: 1 },
-        { x: randomX + 2, y: 1 },
-      ];
-    default: // will never reach this case but typescript complains if we don't have a default case
-      return [];
-  }
+/**
+ * The cubes of every shape type in every orientation of the Super Rotation System (SRS),
+ * relative to the top left corner of the shape's bounding box (4x4 for I, 2x2 for O and 3x3 for the rest).
+ * Orientation 0 is the spawn orientation, R is one clockwise rotation from it, 2 is two rotations and L is one anticlockwise rotation.
+ */
+const SHAPES: {
+  [shape in ShapeType]: { [orientation in Orientation]: BlockPosition };
+} = {
+  I: {
+    "0": [
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+      { x: 3, y: 1 },
+    ],
+    R: [
+      { x: 2, y: 0 },
+      { x: 2, y: 1 },
+      { x: 2, y: 2 },
+      { x: 2, y: 3 },
+    ],
+    "2": [
+      { x: 0, y: 2 },
+      { x: 1, y: 2 },
+      { x: 2, y: 2 },
+      { x: 3, y: 2 },
+    ],
+    L: [
+      { x: 1, y: 0 },
+      { x: 1, y: 1 },
+      { x: 1, y: 2 },
+      { x: 1, y: 3 },
+    ],
+  },
+  J: {
+    "0": [
+      { x: 0, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+    ],
+    R: [
+      { x: 1, y: 0 },
+      { x: 2, y: 0 },
+      { x: 1, y: 1 },
+      { x: 1, y: 2 },
+    ],
+    "2": [
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+      { x: 2, y: 2 },
+    ],
+    L: [
+      { x: 1, y: 0 },
+      { x: 1, y: 1 },
+      { x: 0, y: 2 },
+      { x: 1, y: 2 },
+    ],
+  },
+  L: {
+    "0": [
+      { x: 2, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+    ],
+    R: [
+      { x: 1, y: 0 },
+      { x: 1, y: 1 },
+      { x: 1, y: 2 },
+      { x: 2, y: 2 },
+    ],
+    "2": [
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+      { x: 0, y: 2 },
+    ],
+    L: [
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 1, y: 1 },
+      { x: 1, y: 2 },
+    ],
+  },
+  O: {
+    "0": [
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+    ],
+    R: [
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+    ],
+    "2": [
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+    ],
+    L: [
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+    ],
+  },
+  S: {
+    "0": [
+      { x: 1, y: 0 },
+      { x: 2, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+    ],
+    R: [
+      { x: 1, y: 0 },
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+      { x: 2, y: 2 },
+    ],
+    "2": [
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+      { x: 0, y: 2 },
+      { x: 1, y: 2 },
+    ],
+    L: [
+      { x: 0, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 1, y: 2 },
+    ],
+  },
+  T: {
+    "0": [
+      { x: 1, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+    ],
+    R: [
+      { x: 1, y: 0 },
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+      { x: 1, y: 2 },
+    ],
+    "2": [
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+      { x: 1, y: 2 },
+    ],
+    L: [
+      { x: 1, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 1, y: 2 },
+    ],
+  },
+  Z: {
+    "0": [
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+    ],
+    R: [
+      { x: 2, y: 0 },
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+      { x: 1, y: 2 },
+    ],
+    "2": [
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 1, y: 2 },
+      { x: 2, y: 2 },
+    ],
+    L: [
+      { x: 1, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 0, y: 2 },
+    ],
+  },
 };
+
+// width of the bounding box of each shape type
+const BOX_WIDTHS: { [shape in ShapeType]: number } = {
+  I: 4,
+  J: 3,
+  L: 3,
+  O: 2,
+  S: 3,
+  T: 3,
+  Z: 3,
+};
+
+/**
+ * Creates a piece of the given shape type in spawn orientation at the spawn location.
+ * Every shape has a fixed spawn column that centers it horizontally, and spawns in the 2 rows of the buffer zone right above the visible grid.
+ * @param shapeType - The shape type of the piece.
+ * @param config - The game config.
+ * @returns {Piece} The piece at the spawn location.
+ */
+export const createSpawnPiece = (
+  shapeType: ShapeType,
+  config: GameConfig
+): Piece => ({
+  shape: shapeType,
+  orientation: "0",
+  position: {
+    x: Math.floor((config.width - BOX_WIDTHS[shapeType]) / 2),
+    y: config.bufferHeight - 2,
+  },
+});
+
+/**
+ * Gets the positions of the cubes that make up a piece on the game grid.
+ * @param piece - The piece.
+ * @returns {BlockPosition} The positions of the 4 cubes of the piece.
+ */
+export const getCubes = ({
+  shape,
+  orientation,
+  position,
+}: Piece): BlockPosition =>
+  SHAPES[shape][orientation].map(({ x, y }) => ({
+    x: position.x + x,
+    y: position.y + y,
+  }));
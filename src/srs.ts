@@ -0,0 +1,170 @@
+import { Orientation, Position, Rotation, ShapeType } from "./types";
+
+/**
+ * The orientations in clockwise order.
+ */
+export const ORIENTATIONS: ReadonlyArray<Orientation> = ["0", "R", "2", "L"];
+
+type KickTable = { [rotation: string]: ReadonlyArray<Position<number>> };
+
+/**
+ * The wall kick offsets of the J, L, S, T and Z shapes, keyed by "<from orientation><to orientation>".
+ * The offsets are written as in the SRS specification where y points up, whereas y points down on the game grid.
+ */
+const JLSTZ_KICKS: KickTable = {
+  "0R": [
+    { x: 0, y: 0 },
+    { x: -1, y: 0 },
+    { x: -1, y: 1 },
+    { x: 0, y: -2 },
+    { x: -1, y: -2 },
+  ],
+  R0: [
+    { x: 0, y: 0 },
+    { x: 1, y: 0 },
+    { x: 1, y: -1 },
+    { x: 0, y: 2 },
+    { x: 1, y: 2 },
+  ],
+  R2: [
+    { x: 0, y: 0 },
+    { x: 1, y: 0 },
+    { x: 1, y: -1 },
+    { x: 0, y: 2 },
+    { x: 1, y: 2 },
+  ],
+  "2R": [
+    { x: 0, y: 0 },
+    { x: -1, y: 0 },
+    { x: -1, y: 1 },
+    { x: 0, y: -2 },
+    { x: -1, y: -2 },
+  ],
+  "2L": [
+    { x: 0, y: 0 },
+    { x: 1, y: 0 },
+    { x: 1, y: 1 },
+    { x: 0, y: -2 },
+    { x: 1, y: -2 },
+  ],
+  L2: [
+    { x: 0, y: 0 },
+    { x: -1, y: 0 },
+    { x: -1, y: -1 },
+    { x: 0, y: 2 },
+    { x: -1, y: 2 },
+  ],
+  L0: [
+    { x: 0, y: 0 },
+    { x: -1, y: 0 },
+    { x: -1, y: -1 },
+    { x: 0, y: 2 },
+    { x: -1, y: 2 },
+  ],
+  "0L": [
+    { x: 0, y: 0 },
+    { x: 1, y: 0 },
+    { x: 1, y: 1 },
+    { x: 0, y: -2 },
+    { x: 1, y: -2 },
+  ],
+};
+
+/**
+ * The wall kick offsets of the I shape, in the same format as JLSTZ_KICKS.
+ */
+const I_KICKS: KickTable = {
+  "0R": [
+    { x: 0, y: 0 },
+    { x: -2, y: 0 },
+    { x: 1, y: 0 },
+    { x: -2, y: -1 },
+    { x: 1, y: 2 },
+  ],
+  R0: [
+    { x: 0, y: 0 },
+    { x: 2, y: 0 },
+    { x: -1, y: 0 },
+    { x: 2, y: 1 },
+    { x: -1, y: -2 },
+  ],
+  R2: [
+    { x: 0, y: 0 },
+    { x: -1, y: 0 },
+    { x: 2, y: 0 },
+    { x: -1, y: 2 },
+    { x: 2, y: -1 },
+  ],
+  "2R": [
+    { x: 0, y: 0 },
+    { x: 1, y: 0 },
+    { x: -2, y: 0 },
+    { x: 1, y: -2 },
+    { x: -2, y: 1 },
+  ],
+  "2L": [
+    { x: 0, y: 0 },
+    { x: 2, y: 0 },
+    { x: -1, y: 0 },
+    { x: 2, y: 1 },
+    { x: -1, y: -2 },
+  ],
+  L2: [
+    { x: 0, y: 0 },
+    { x: -2, y: 0 },
+    { x: 1, y: 0 },
+    { x: -2, y: -1 },
+    { x: 1, y: 2 },
+  ],
+  L0: [
+    { x: 0, y: 0 },
+    { x: 1, y: 0 },
+    { x: -2, y: 0 },
+    { x: 1, y: -2 },
+    { x: -2, y: 1 },
+  ],
+  "0L": [
+    { x: 0, y: 0 },
+    { x: -1, y: 0 },
+    { x: 2, y: 0 },
+    { x: -1, y: 2 },
+    { x: 2, y: -1 },
+  ],
+};
+
+/**
+ * Gets the orientation a piece ends up in after the given rotation.
+ * @param orientation - The current orientation.
+ * @param rotation - The rotation to apply.
+ * @returns The new orientation.
+ */
+export const rotateOrientation = (
+  orientation: Orientation,
+  rotation: Rotation
+): Orientation => {
+  const step = rotation === "RotateClockwise" ? 1 : ORIENTATIONS.length - 1;
+  const index = ORIENTATIONS.indexOf(orientation);
+  return ORIENTATIONS[(index + step) % ORIENTATIONS.length];
+};
+
+/**
+ * Gets the offsets to try, in order, when rotating a piece from one orientation to another.
+ * The first offset that gives a valid position is used and the rotation fails if none does.
+ * @param shape - The shape type of the piece.
+ * @param from - The orientation before the rotation.
+ * @param to - The orientation after the rotation.
+ * @returns The offsets in game grid coordinates (y pointing down).
+ */
+export const getKicks = (
+  shape: ShapeType,
+  from: Orientation,
+  to: Orientation
+): ReadonlyArray<Position<number>> => {
+  // the O shape never kicks as it looks the same in every orientation
+  if (shape === "O") {
+    return [{ x: 0, y: 0 }];
+  }
+
+  const table = shape === "I" ? I_KICKS : JLSTZ_KICKS;
+  return table[`${from}${to}`].map(({ x, y }) => ({ x, y: -y }));
+};
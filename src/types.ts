@@ -1,36 +1,614 @@
+import { Observable, Subscription } from "rxjs";
+
 export type Position<T> = { x: T; y: T };
 
+// a randomly generated value together with the seed to use for the next random value
+export type Random<T> = Readonly<{ value: T; seed: number }>;
+
 export type CubePosition = Readonly<Position<number>>;
 export type BlockPosition = ReadonlyArray<Position<number>>;
 
-export type Block = BlockPosition | undefined; // this can be undefined because the game starts with no current block or when as block reaches the bottom, there is no current block
+export type ShapeType = "I" | "J" | "L" | "O" | "S" | "T" | "Z";
+
+// what took a cell of the board: a block of a shape type, or a garbage row pushed up from below
+export type CellType = ShapeType | "Garbage";
+
+// orientation of a piece in the Super Rotation System: 0 is the spawn orientation, R is rotated clockwise once, 2 twice and L anticlockwise once
+export type Orientation = "0" | "R" | "2" | "L";
+
+// a falling block knows its shape and orientation. position is the top left corner of the shape's bounding box, its cubes are derived with getCubes
+export type Piece = Readonly<{
+  shape: ShapeType;
+  orientation: Orientation;
+  position: CubePosition;
+  kick?: number; // index of the wall kick used by the last rotation, undefined if the last movement was not a rotation
+}>;
+
+export type Block = Piece | undefined; // this can be undefined because the game starts with no current block or when as block reaches the bottom, there is no current block
+
+// the locked blocks as an occupancy grid covering the visible rows and the hidden buffer zone
+export type Board = Readonly<{
+  rows: ReadonlyArray<number>; // each row is a bitmask where bit x is set when the cell in column x is taken
+  cells: ReadonlyArray<ReadonlyArray<CellType | undefined>>; // the shape type of the block or the garbage each cell was taken by, row by row
+}>;
+
+// a taken cell of the board
+export type FilledCell = Readonly<{ x: number; y: number; type: CellType }>;
+
+export type RandomizerType = "Uniform" | "SevenBag" | "History";
+
+// state kept by the piece generator between pieces. bag is used by the 7-bag strategy and history by the history strategy
+export type RandomizerState = Readonly<{
+  type: RandomizerType;
+  bag: ReadonlyArray<ShapeType>;
+  history: ReadonlyArray<ShapeType>;
+}>;
+
+export type PieceGenerator = (
+  randomizer: RandomizerState,
+  seed: number
+) => Readonly<{ shape: ShapeType; randomizer: RandomizerState; seed: number }>;
 
-export type Key = "KeyA" | "KeyD" | "KeyH" | "KeyQ" | "KeyE" | "KeyS" | "KeyR";
+// the code of a physical key, as in KeyboardEvent.code, e.g. "KeyA" or "ArrowLeft"
+export type Key = string;
+
+// the actions keys can be bound to. holding the soft drop key drops the block faster until it is released
+export type InputAction =
+  | "Left"
+  | "Right"
+  | "SoftDrop"
+  | "HardDrop"
+  | "RotateClockwise"
+  | "RotateAntiClockwise"
+  | "Hold"
+  | "Pause"
+  | "Restart";
+
+// the keys bound to each action, an action can have several keys
+export type KeyBindings = Readonly<{
+  [action in InputAction]: ReadonlyArray<Key>;
+}>;
+
+// a press or release of an action, from a key, a gamepad button or an on-screen button
+export type ActionInput = Readonly<{ action: InputAction; pressed: boolean }>;
+
+// whether each button of a gamepad is pressed, indexed like the standard gamepad mapping
+export type GamepadSnapshot = ReadonlyArray<boolean>;
+
+// the gamepad buttons bound to each action, by their index in the standard gamepad mapping
+export type GamepadBindings = Readonly<{
+  [action in InputAction]: ReadonlyArray<number>;
+}>;
+
+// where a finger touches the screen in px, and when in ms
+export type TouchPoint = Readonly<{ x: number; y: number; time: number }>;
+
+// the settings of the keyboard input, edited in the settings panel and remembered between visits
+export type InputSettings = Readonly<{
+  keyBindings: KeyBindings;
+  das: number; // delayed auto shift: time in ms a left or right key is held before the block starts moving on its own
+  arr: number; // auto repeat rate: time in ms between moves while a left or right key is held, 0 moves the block to the wall at once
+  softDropFactor: number; // how many times faster than gravity a block falls while the soft drop key is held
+}>;
 
 export type Direction = "Left" | "Right" | "Down";
 export type Rotation = "RotateClockwise" | "RotateAntiClockwise";
 
-export type GameEvent = Direction | Rotation | "Hold" | "Tick" | "Restart";
+export type GameEvent =
+  | Direction
+  | Rotation
+  | "HardDrop"
+  | "SoftDropStart"
+  | "SoftDropEnd"
+  | "Hold"
+  | "Tick"
+  | "Pause"
+  | "Resume"
+  | "TogglePause"
+  | "Restart";
+
+export type TSpin = "None" | "Mini" | "Full";
+
+export type ClearType =
+  | "SINGLE"
+  | "DOUBLE"
+  | "TRIPLE"
+  | "TETRIS"
+  | "MINI T-SPIN"
+  | "MINI T-SPIN SINGLE"
+  | "MINI T-SPIN DOUBLE"
+  | "T-SPIN"
+  | "T-SPIN SINGLE"
+  | "T-SPIN DOUBLE"
+  | "T-SPIN TRIPLE";
+
+// the last clear that scored points, for the view to display
+export type ClearInfo = Readonly<{
+  type: ClearType;
+  backToBack: boolean; // whether this clear got the back-to-back bonus
+  combo: number; // number of consecutive line clears before this one
+}>;
 
 export type MoveLogic = (pos: Position<number>) => Position<number>;
-export type BoundaryCheck = (cubePos: CubePosition) => boolean;
-export type RotateLogic = (block: BlockPosition) => BlockPosition;
+export type BoundaryCheck = (
+  cubePos: CubePosition,
+  config: GameConfig
+) => boolean;
 
 export type BlockAction = (
   currentBlock: Block,
-  oldBlocks: BlockPosition[]
+  board: Board,
+  config: GameConfig
 ) => Block;
-export type CollisionCheck = (
-  block: BlockPosition,
-  oldObjects: BlockPosition[]
-) => boolean;
+export type CollisionCheck = (block: BlockPosition, board: Board) => boolean;
+
+// points awarded for each type of clear (multiplied by the level) and the bonuses
+export type ScoringTable = Readonly<
+  { [type in ClearType]: number } & {
+    COMBO: number; // per combo count, multiplied by the level
+    SOFT_DROP: number; // per row dropped
+    HARD_DROP: number; // per row dropped
+    BACK_TO_BACK_MULTIPLIER: number; // applied to a tetris or t-spin clear that follows another one
+  }
+>;
+
+// the rules of a game. it is kept in the state and passed into the game logic instead of being read from global constants
+export type GameConfig = Readonly<{
+  width: number; // width of the grid, at most 30 (see MAX_BOARD_WIDTH)
+  height: number; // height of the visible part of the grid
+  bufferHeight: number; // height of the hidden buffer zone above the visible grid where blocks spawn, at least 2
+  gravityCurve: ReadonlyArray<number>; // time in ms for a block to fall one row at each level starting from level 1
+  lockDelay: number; // time in ms a landed block rests on the stack before it locks
+  lockResetLimit: number; // number of times moving or rotating a landed block can reset its lock delay
+  lineClearDelay: number; // time in ms full rows are animated before they are removed and the rows above shift down
+  entryDelay: number; // time in ms between a block locking (or its rows being removed) and the next block spawning (ARE)
+  softDropFactor: number; // how many times faster than gravity a block falls while soft dropping
+  linesPerLevel: number; // number of cleared rows needed to reach the next level
+  previewCount: number; // number of upcoming blocks shown in the next queue (1 to 6)
+  scoring: ScoringTable;
+  randomizer: RandomizerType; // piece sequence strategy
+  mode: GameModeName; // the goal and end of the game
+}>;
+
+export type GameModeName =
+  | "Marathon"
+  | "Sprint"
+  | "Ultra"
+  | "Zen"
+  | "Dig"
+  | "Survival"
+  | "Versus";
+
+// how the games of a mode are ranked on the leaderboard: by highest score, by fastest time of the complete games or by longest time survived
+export type Ranking = "Score" | "FastestTime" | "LongestTime";
+
+// the goal, end and HUD of a game mode
+export type GameMode = Readonly<{
+  maxLevel?: number; // the game is complete once this level has been played through
+  lineGoal?: number; // the game is complete once this many rows have been cleared
+  timeLimit?: number; // time in ms the game lasts, the HUD counts the time down instead of up
+  topOut: boolean; // whether the game is over when the stack reaches the top, otherwise the board is emptied and the game goes on
+  levelUp: boolean; // whether the level goes up as rows are cleared, otherwise blocks keep falling at the speed of level 1
+  garbageRows?: number; // the game starts with this many garbage rows and is complete once they are all cleared
+  garbageInterval?: number; // time in ms between garbage rows pushed up from below
+  sendsGarbage?: boolean; // whether line clears send garbage rows to the opponent, in a versus match
+  showResults: boolean; // whether a game that ended stays on the results screen until the player restarts, otherwise it restarts after the game over box
+  ranking: Ranking;
+}>;
+
+// block out: a new block spawned overlapping the stack. lock out: a block locked entirely above the visible grid
+// top out: garbage pushed the stack or the falling block over the top of the grid
+// complete: the goal of the mode was reached. time up: the time limit of the mode ran out
+export type GameOverReason =
+  | "BLOCK OUT"
+  | "LOCK OUT"
+  | "TOP OUT"
+  | "COMPLETE"
+  | "TIME UP";
+
+// the cubes of the block that locked last, which flash for a moment
+export type LockFlash = Readonly<{
+  cubes: BlockPosition;
+  timer: number; // time since the block locked
+}>;
+
+// a text that pops up over the board for a moment, on a level up or a tetris
+export type TextPop = Readonly<{
+  text: string;
+  timer: number; // time since the text popped up
+}>;
+
+// how a game that ended went, kept for the leaderboard
+export type GameResult = Readonly<{
+  mode: GameModeName;
+  complete: boolean; // whether the goal of the mode was reached
+  score: number;
+  lines: number;
+  level: number;
+  duration: number; // time played in ms, without the time the game was paused
+}>;
 
 export type State = Readonly<{
+  config: GameConfig;
+  paused: boolean; // while paused the game clock stops and only resuming and restarting do anything
   gameEnd: boolean;
-  currentBlock?: BlockPosition;
-  nextBlock?: BlockPosition;
-  holdBlock?: BlockPosition;
-  oldBlocks: BlockPosition[];
+  gameOverReason?: GameOverReason; // why the last game ended, shown while gameEnd is true
+  gameEndTimer: number; // time the game over box has been shown
+  lastResult?: GameResult; // the result of the last game that ended, until the next game ends or is restarted
+  currentBlock?: Piece;
+  nextBlocks: ReadonlyArray<Piece>; // queue of the upcoming blocks, the first one is next
+  holdBlock?: ShapeType; // only the shape is held, it respawns in spawn orientation when swapped back in
+  canHold: boolean; // a block can only be held once until it locks
+  board: Board; // the locked blocks
   score: number;
   highScore: number;
+  level: number;
+  lines: number; // total number of rows cleared
+  elapsed: number; // time played in ms
+  combo: number; // number of consecutive locks that cleared rows minus one, -1 when the last lock cleared nothing
+  backToBack: boolean; // whether the last line clear was a tetris or t-spin
+  lastClear?: ClearInfo;
+  gravityTimer: number; // time since the current block last fell a row
+  lockTimer: number; // time the current block has been resting on the stack
+  lockResets: number; // number of times the lock timer of the current block has been reset
+  softDropping: boolean; // whether the soft drop key is held, between the SoftDropStart and SoftDropEnd events
+  clearingRows: ReadonlyArray<number>; // the full rows waiting to be removed during the line clear delay
+  clearTimer: number; // time the full rows have been waiting to be removed
+  entryTimer: number; // time since the last block locked, the next block spawns once it reaches the entry delay
+  garbageTimer: number; // time since the last garbage row was pushed up, in a mode with garbage on a timer
+  pendingGarbage: number; // garbage rows the opponent sent, pushed up once a block locks without clearing rows
+  sentGarbage: number; // garbage rows sent to the opponent that have not been delivered yet
+  lockFlash?: LockFlash;
+  textPop?: TextPop;
+  seed: number; // seed for the next random value, kept in the state so the game stays reproducible
+  garbageSeed: number; // seed for the next garbage hole, apart from the seed so that garbage does not change the sequence of blocks
+  randomizer: RandomizerState;
+}>;
+
+// a running game that can be driven without a browser, by a keyboard, a bot or a test
+export type Game = Readonly<{
+  step: (event: GameEvent) => State; // applies a game event and returns the new state
+  getState: () => State;
+  state$: Observable<State>; // the current state followed by every new state
+  connect: (event$: Observable<GameEvent>) => Subscription; // steps the game for every event of the observable
+}>;
+
+export type PlayerIndex = 0 | 1;
+
+// an event of a versus match: the event of one player, or an event of the match without a player, e.g. a tick of the game clock
+export type VersusEvent = Readonly<{ player?: PlayerIndex; event: GameEvent }>;
+
+// two games side by side that send garbage rows to each other
+export type VersusState = Readonly<{
+  players: readonly [State, State];
+  winner?: PlayerIndex | "Draw"; // set once a player topped out, the match is over until it is restarted
+}>;
+
+// a running versus match, driven like a game
+export type VersusMatch = Readonly<{
+  step: (event: VersusEvent) => VersusState;
+  getState: () => VersusState;
+  state$: Observable<VersusState>;
+  connect: (event$: Observable<VersusEvent>) => Subscription;
+}>;
+
+export type ThemeName =
+  | "Classic"
+  | "HighContrast"
+  | "Colorblind"
+  | "Monochrome";
+
+// a mark drawn on top of a cube so that shapes can be told apart without relying on color
+export type CubePattern =
+  | "None"
+  | "Dot"
+  | "Ring"
+  | "Slash"
+  | "Backslash"
+  | "Cross"
+  | "HorizontalBar"
+  | "VerticalBar";
+
+// the colors and marks the view draws the game with
+export type Theme = Readonly<{
+  pieces: { [type in CellType]: string }; // fill color of the cubes of each shape type and of garbage
+  patterns: { [type in CellType]: CubePattern };
+  patternColor: string;
+  outline: string; // stroke color around each cube
+  outlineWidth: number;
+  ghostOpacity: number; // the ghost block is drawn in the color of the current block with this opacity
+  background: string; // background of the board
+  previewBackground: string; // background of the preview and hold boxes
+  gridLines: string; // color of the lines between cells, transparent to hide them
+  disabled: string; // color of the held block while holding is not available
+  gameOverBackground: string;
+  gameOverText: string;
+  flash: string; // color of the cubes of a block that just locked and of the rows being cleared when they flash
+  textPop: string; // color of the level up and tetris texts
+}>;
+
+// the size of a rendered cube
+export type CubeSize = Readonly<{ WIDTH: number; HEIGHT: number }>;
+
+// how a cube is painted
+export type CubeStyle = Readonly<{
+  color: string;
+  opacity: number;
+  outline: string;
+  outlineWidth: number;
+  pattern: CubePattern;
+  patternColor: string;
+}>;
+
+// the cubes to draw in a box, keyed by their position as "x,y"
+export type CubeStyles = ReadonlyMap<string, CubeStyle>;
+
+// draws game states, with svg elements (see createSvgRenderer) or a 2d canvas (see createCanvasRenderer)
+export type Renderer = Readonly<{
+  resize: (config: GameConfig) => void; // sizes the board, preview and hold boxes to fit the board of the config
+  renderBoard: (state: State, theme: Theme) => void; // the locked blocks, the ghost block and the current block
+  renderPreview: (state: State, theme: Theme) => void; // the next queue
+  renderHold: (state: State, theme: Theme) => void;
+  renderScore: (state: State) => void; // the info panel
+  renderOverlay: (state: State, theme: Theme) => void; // the game over box
+}>;
+
+// the elements of the info panel that the view writes text into
+export type TextElements = Readonly<{
+  score: HTMLElement;
+  highScore: HTMLElement;
+  level: HTMLElement;
+  lines: HTMLElement;
+  lastClear: HTMLElement;
+  mode: HTMLElement; // the mode and how far the game is from its goal
+  timer: HTMLElement;
+}>;
+
+// the elements of the results screen shown over the board when a game of a mode with results ends
+export type ResultsElements = Readonly<{
+  panel: HTMLElement;
+  reason: HTMLElement;
+  score: HTMLElement;
+  lines: HTMLElement;
+  level: HTMLElement;
+  time: HTMLElement;
+}>;
+
+// the elements of the settings panel
+export type SettingsElements = Readonly<{
+  keys: { [action in InputAction]: HTMLElement }; // lists the keys bound to each action
+  bindButtons: ReadonlyArray<HTMLElement>; // the buttons that bind the next key pressed to their action
+  clearButtons: ReadonlyArray<HTMLElement>; // the buttons that unbind all the keys of their action
+  das: HTMLInputElement;
+  arr: HTMLInputElement;
+  softDropFactor: HTMLInputElement;
+}>;
+
+export type SvgRendererElements = Readonly<{
+  board: SVGElement;
+  preview?: SVGElement;
+  hold?: SVGElement;
+  textElements?: TextElements;
+}>;
+
+// a canvas on the page or an offscreen canvas, e.g. to render thumbnails
+export type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+export type CanvasRendererElements = Readonly<{
+  board: RenderCanvas;
+  preview?: RenderCanvas;
+  hold?: RenderCanvas;
+  textElements?: TextElements;
+}>;
+
+// the elements of the replay panel that control the replay player
+export type PlaybackElements = Readonly<{
+  pause: HTMLElement;
+  speed: HTMLSelectElement;
+  seekTick: HTMLInputElement;
+  seek: HTMLElement;
+}>;
+
+// an input event of a replay, tick is the number of ticks that happened before it
+export type ReplayEvent = Readonly<{
+  tick: number;
+  event: Exclude<GameEvent, "Tick">;
+}>;
+
+// the input events of a replay grouped by the tick they were recorded at
+export type ReplayEventIndex = Readonly<{
+  [tick: number]: ReadonlyArray<GameEvent>;
+}>;
+
+// a recorded game. the seed and config recreate the initial state and the events are fed back through the game actions
+export type Replay = Readonly<{
+  version: number; // version of the replay format, replays of other versions cannot be played back
+  seed: number;
+  config: GameConfig;
+  ticks: number; // total number of ticks recorded
+  events: ReadonlyArray<ReplayEvent>;
+}>;
+
+export type PlaybackSpeed = 1 | 2 | 4;
+
+// controls of the replay player
+export type PlaybackControl =
+  | Readonly<{ type: "TogglePause" }>
+  | Readonly<{ type: "Speed"; speed: PlaybackSpeed }>
+  | Readonly<{ type: "Seek"; tick: number }>;
+
+export type PlaybackState = Readonly<{
+  replay: Replay;
+  events: ReplayEventIndex; // the input events of the replay, indexed once when the player is created
+  tick: number; // number of recorded ticks played back so far
+  paused: boolean;
+  speed: PlaybackSpeed; // number of recorded ticks played back per tick
+  state: State; // game state at the current tick
+}>;
+
+// a game on the leaderboard
+export type LeaderboardEntry = Readonly<{
+  name: string;
+  score: number;
+  lines: number;
+  level: number;
+  duration: number; // time played in ms
+  mode: GameModeName;
+  date: string; // when the game ended, as an ISO 8601 date
+}>;
+
+// the best games, highest score first
+export type Leaderboard = ReadonlyArray<LeaderboardEntry>;
+
+// the best score ever played in each mode, kept apart from the leaderboard so that it counts the games left off it too
+export type HighScores = Readonly<{ [mode in GameModeName]?: number }>;
+
+// where the leaderboard is kept between visits
+export type LeaderboardStorage = Readonly<{
+  load: () => Leaderboard;
+  save: (leaderboard: Leaderboard) => void;
+}>;
+
+// the elements of the leaderboard panel
+export type LeaderboardElements = Readonly<{
+  table: HTMLElement;
+  exportButton: HTMLElement;
+  importInput: HTMLInputElement;
+}>;
+
+// what a player of an online match sees of the board of the opponent, sent over the relay a few times per second
+export type OnlineSnapshot = Pick<
+  State,
+  | "board"
+  | "currentBlock"
+  | "nextBlocks"
+  | "holdBlock"
+  | "canHold"
+  | "score"
+  | "level"
+  | "lines"
+  | "lastClear"
+  | "elapsed"
+  | "clearingRows"
+  | "pendingGarbage"
+  | "gameEnd"
+>;
+
+// the messages a client of an online match sends to the relay server
+export type ClientMessage =
+  | Readonly<{ type: "Create" }> // creates a room and joins it
+  | Readonly<{ type: "Join"; code: string }>
+  | Readonly<{ type: "Ready" }> // the match starts once both players are ready
+  | Readonly<{ type: "Snapshot"; snapshot: OnlineSnapshot }>
+  | Readonly<{ type: "Attack"; rows: number }> // garbage rows sent to the opponent
+  | Readonly<{ type: "ToppedOut" }>
+  | Readonly<{ type: "Leave" }>;
+
+// the messages the relay server sends to a client of an online match
+export type ServerMessage =
+  | Readonly<{ type: "Room"; code: string; player: PlayerIndex }> // the client joined a room as this player
+  | Readonly<{ type: "OpponentJoined" }>
+  | Readonly<{ type: "Countdown"; seed: number; startsIn: number }> // both players are ready, the match starts in startsIn ms with the shared seed
+  | Readonly<{ type: "Snapshot"; snapshot: OnlineSnapshot }> // the board of the opponent
+  | Readonly<{ type: "Attack"; rows: number }> // garbage rows the opponent sent
+  | Readonly<{ type: "MatchOver"; winner: PlayerIndex }>
+  | Readonly<{ type: "OpponentLeft" }> // the opponent left or lost the connection, the room is closed
+  | Readonly<{ type: "Error"; message: string }>;
+
+// a room of the relay server, identified by its code
+export type RelayRoom = Readonly<{
+  code: string;
+  clients: ReadonlyArray<number>; // the ids of the clients in the room, the index is the player
+  ready: ReadonlyArray<number>; // the ids of the clients that are ready for the next match
+  playing: boolean;
+}>;
+
+export type RelayState = Readonly<{
+  rooms: Readonly<Record<string, RelayRoom>>;
+  countdown: number; // time in ms from both players being ready to the start of the match
+}>;
+
+// a message for a client, sent by the relay server
+export type RelayOutput = Readonly<{ client: number; message: ServerMessage }>;
+
+// lobby: connected without a room. room: in a room, waiting for an opponent or for both players to be ready
+// countdown: the match is about to start. playing: the match is on. over: the match is over, both players can get ready for a rematch
+// disconnected: the connection to the relay server was lost
+export type OnlinePhase =
+  | "Lobby"
+  | "Room"
+  | "Countdown"
+  | "Playing"
+  | "Over"
+  | "Disconnected";
+
+// the state of a client of an online match
+export type OnlineState = Readonly<{
+  config: GameConfig;
+  phase: OnlinePhase;
+  code?: string; // the code of the room, for the opponent to join it
+  player?: PlayerIndex;
+  opponentJoined: boolean;
+  ready: boolean; // whether this player is ready for the next match
+  seed?: number; // the seed of the match, shared by both players
+  countdown: number; // time in ms until the match starts
+  game?: State; // the game of this player
+  opponent?: OnlineSnapshot; // the last board of the opponent
+  winner?: PlayerIndex;
+  error?: string; // what went wrong last, e.g. a room that does not exist
+  outbox: ReadonlyArray<ClientMessage>; // the messages to send to the relay server after the last event
+}>;
+
+// an event of a client of an online match
+export type OnlineEvent =
+  | Readonly<{ type: "Command"; message: ClientMessage }> // a lobby command of the player, e.g. create a room
+  | Readonly<{ type: "Server"; message: ServerMessage }>
+  | Readonly<{ type: "Game"; event: GameEvent }> // an input of the player or a tick of the game clock
+  | Readonly<{ type: "Disconnected" }>;
+
+// a connection to the relay server
+export type OnlineConnection = Readonly<{
+  send: (message: ClientMessage) => void;
+  message$: Observable<ServerMessage>; // completes when the connection is closed
+  close: () => void;
+}>;
+
+// a running relay server
+export type RelayServer = Readonly<{
+  port: number; // the port it listens on, picked by the system when it was started on port 0
+  close: () => Promise<void>; // disconnects every client and stops listening
+}>;
+
+// the features of a board the bot scores the placements of a block by
+export type BotFeature =
+  | "aggregateHeight" // the sum of the heights of the columns
+  | "holes" // the empty cells below the top of their column
+  | "bumpiness" // the sum of the height differences between neighbouring columns
+  | "linesCleared" // the rows the placement clears
+  | "wells"; // the sum of the depths of the columns lower than both their neighbours
+
+// the value of each feature of a board
+export type BoardFeatures = Readonly<{ [feature in BotFeature]: number }>;
+
+// how much each feature of a board counts towards its score, a negative weight makes the bot avoid the feature
+export type BotWeights = Readonly<{ [feature in BotFeature]: number }>;
+
+// a place the current block can be dropped to, and the game events that drop it there
+export type Placement = Readonly<{
+  block: Piece;
+  events: ReadonlyArray<GameEvent>;
+}>;
+
+// the outcome of a game played by the bot
+export type BotGameResult = Readonly<{
+  seed: number;
+  lines: number;
+  score: number;
+  pieces: number; // the blocks the bot placed
+}>;
+
+// the outcome of games played by the bot, to compare weights with
+export type BotReport = Readonly<{
+  games: ReadonlyArray<BotGameResult>;
+  averageLines: number;
 }>;
@@ -1,2 +1,31 @@
-export const randomInt = (min: number, max: number) =>
-  Math.floor(Math.random() * (max - min + 1) + min);
+import { Random } from "./types";
+
+/**
+ * Seeded pseudo random number generator (mulberry32).
+ * It does not hold any state of its own: the seed goes in and the seed for the next call comes out,
+ * so randomness can be threaded through the game state and the same seed always gives the same sequence.
+ * @param seed - The current seed.
+ * @returns A random number in [0, 1) and the next seed.
+ */
+export const nextRandom = (seed: number): Random<number> => {
+  const nextSeed = (seed + 0x6d2b79f5) | 0;
+  const a = Math.imul(nextSeed ^ (nextSeed >>> 15), nextSeed | 1);
+  const b = a ^ (a + Math.imul(a ^ (a >>> 7), a | 61));
+  return { value: ((b ^ (b >>> 14)) >>> 0) / 4294967296, seed: nextSeed };
+};
+
+/**
+ * Generates a random integer between min and max (both inclusive) using the given seed.
+ * @param min - The lower bound.
+ * @param max - The upper bound.
+ * @param seed - The current seed.
+ * @returns The random integer and the next seed.
+ */
+export const randomInt = (
+  min: number,
+  max: number,
+  seed: number
+): Random<number> => {
+  const { value, seed: nextSeed } = nextRandom(seed);
+  return { value: Math.floor(value * (max - min + 1) + min), seed: nextSeed };
+};
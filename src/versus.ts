@@ -0,0 +1,153 @@
+import { BehaviorSubject, Observable } from "rxjs";
+import { createInitialState, gameActions } from "./game";
+import {
+  GameConfig,
+  GameEvent,
+  PlayerIndex,
+  State,
+  VersusEvent,
+  VersusMatch,
+  VersusState,
+} from "./types";
+
+// the events that go to both players whichever player sent them, so that the match is paused and restarted as a whole
+const MatchEvents: ReadonlyArray<GameEvent> = [
+  "Tick",
+  "Pause",
+  "Resume",
+  "TogglePause",
+  "Restart",
+];
+
+/**
+ * Gets the config of a game of a versus match, played in the Versus mode whatever mode the config has.
+ * @param config - The board dimensions and rules of the game.
+ * @returns The config of the game.
+ */
+export const getVersusConfig = (config: GameConfig): GameConfig => ({
+  ...config,
+  mode: "Versus",
+});
+
+/**
+ * Creates the initial state of a versus match: two games of the Versus mode with the same seed, so that both players get the same sequence of blocks.
+ * @param config - The board dimensions and rules of the games, played in the Versus mode whatever mode it has.
+ * @param seed - The seed for the random block generation of both games.
+ * @returns The initial state of the match.
+ */
+export const createVersusState = (
+  config: GameConfig,
+  seed: number
+): VersusState => {
+  const versusConfig = getVersusConfig(config);
+  return {
+    players: [
+      createInitialState(versusConfig, seed),
+      createInitialState(versusConfig, seed),
+    ],
+  };
+};
+
+/**
+ * Adds garbage rows sent by the opponent to the garbage waiting to be pushed up.
+ * @param state - The game state of the player.
+ * @param rows - The number of garbage rows sent.
+ * @returns The new game state of the player.
+ */
+export const receiveGarbage = (state: State, rows: number): State =>
+  rows === 0
+    ? state
+    : { ...state, pendingGarbage: state.pendingGarbage + rows };
+
+/**
+ * Forgets the garbage rows a player sent once they have been delivered to the opponent.
+ * @param state - The game state of the player.
+ * @returns The new game state of the player.
+ */
+export const clearSentGarbage = (state: State): State =>
+  state.sentGarbage === 0 ? state : { ...state, sentGarbage: 0 };
+
+/**
+ * Delivers the garbage rows each player sent to the other player, who pushes them up once a block locks without clearing rows.
+ * @param first - The game state of the first player.
+ * @param second - The game state of the second player.
+ * @returns The game states of both players after the garbage has been delivered.
+ */
+const exchangeGarbage = (
+  first: State,
+  second: State
+): readonly [State, State] => [
+  receiveGarbage(clearSentGarbage(first), second.sentGarbage),
+  receiveGarbage(clearSentGarbage(second), first.sentGarbage),
+];
+
+/**
+ * Gets the winner of a match: the player who is still standing once the other one topped out.
+ * @param players - The game states of both players.
+ * @returns The winner, a draw if both topped out on the same event, undefined while both are playing.
+ */
+const getWinner = ([first, second]: readonly [State, State]):
+  | PlayerIndex
+  | "Draw"
+  | undefined =>
+  first.gameEnd && second.gameEnd
+    ? "Draw"
+    : first.gameEnd
+    ? 1
+    : second.gameEnd
+    ? 0
+    : undefined;
+
+/**
+ * Applies an event to a versus match. The event of a player only goes to the game of that player,
+ * the game clock, pausing and restarting go to both games. Once the match is over only restarting does anything,
+ * and a restarted match starts both games with the same seed again.
+ * @param versus - The current state of the match.
+ * @param versusEvent - The event and the player who sent it.
+ * @returns The new state of the match.
+ */
+export const stepVersus = (
+  versus: VersusState,
+  { player, event }: VersusEvent
+): VersusState => {
+  const [first, second] = versus.players;
+  if (event === "Restart") {
+    return createVersusState(first.config, first.seed);
+  }
+  if (versus.winner !== undefined) {
+    return versus;
+  }
+
+  const isForPlayer = (index: PlayerIndex) =>
+    player === undefined || player === index || MatchEvents.includes(event);
+  const players = exchangeGarbage(
+    isForPlayer(0) ? gameActions[event](first) : first,
+    isForPlayer(1) ? gameActions[event](second) : second
+  );
+  return { players, winner: getWinner(players) };
+};
+
+/**
+ * Creates a headless versus match, driven like a game by stepping it or connecting an observable of events.
+ * @param config - The board dimensions and rules of the games.
+ * @param seed - The seed for the random block generation of both games.
+ * @returns The versus match.
+ */
+export const createVersusMatch = (
+  config: GameConfig,
+  seed: number
+): VersusMatch => {
+  const state$ = new BehaviorSubject(createVersusState(config, seed));
+
+  const step = (event: VersusEvent) => {
+    state$.next(stepVersus(state$.getValue(), event));
+    return state$.getValue();
+  };
+
+  return {
+    step,
+    getState: () => state$.getValue(),
+    state$: state$.asObservable(),
+    connect: (event$: Observable<VersusEvent>) => event$.subscribe(step),
+  };
+};
@@ -1,5 +1,45 @@
-import { Cube } from "./constants";
-import { BlockPosition, CubePosition, State } from "./types";
+import {
+  Animations,
+  GameModes,
+  getCube,
+  getViewport,
+  PreviewCube,
+  Viewport,
+} from "./constants";
+import { countGarbageRows, getFilledCells } from "./board";
+import { dropBlock } from "./generics";
+import { getModeLeaderboard } from "./leaderboard";
+import { getKeyName } from "./settings";
+import { createSpawnPiece, getCubes } from "./shapes";
+import {
+  BlockPosition,
+  CellType,
+  ClearInfo,
+  CubePattern,
+  CubePosition,
+  CubeSize,
+  CubeStyle,
+  CubeStyles,
+  FilledCell,
+  GameConfig,
+  GameModeName,
+  GameOverReason,
+  InputAction,
+  InputSettings,
+  Leaderboard,
+  OnlineState,
+  Piece,
+  Renderer,
+  ResultsElements,
+  SettingsElements,
+  ShapeType,
+  State,
+  SvgRendererElements,
+  TextElements,
+  TextPop,
+  Theme,
+  VersusState,
+} from "./types";
 
 export const createSvgElement = (
   namespace: string | null,
@@ -11,46 +51,640 @@ export const createSvgElement = (
   return elem;
 };
 
-// Higher order function that accepts an svg element and a color and returns a function that accepts a cube position and finally renders a cube
-const createCube =
-  (svg: SVGElement, color: string) => (cubePos: CubePosition) => {
-    const cube = createSvgElement(svg.namespaceURI, "rect", {
-      height: `${Cube.HEIGHT}`,
-      width: `${Cube.WIDTH}`,
-      x: `${Cube.WIDTH * cubePos.x}`,
-      y: `${Cube.HEIGHT * cubePos.y}`,
-      style: `fill: ${color}`,
-    });
-    svg.appendChild(cube);
-  };
+/**
+ * Gets the style of the cubes of a shape, or of garbage, in the given theme.
+ * @param theme - The theme.
+ * @param type - The shape type of the block the cubes belong to, or garbage.
+ * @param opacity - The opacity of the cubes.
+ * @returns The cube style.
+ */
+export const getCubeStyle = (
+  theme: Theme,
+  type: CellType,
+  opacity: number = 1
+): CubeStyle => ({
+  color: theme.pieces[type],
+  opacity,
+  outline: theme.outline,
+  outlineWidth: theme.outlineWidth,
+  pattern: theme.patterns[type],
+  patternColor: theme.patternColor,
+});
+
+// the lines that draw each pattern, as fractions of the cube size
+const PatternLines: {
+  [pattern in CubePattern]: ReadonlyArray<[number, number, number, number]>;
+} = {
+  None: [],
+  Dot: [],
+  Ring: [],
+  Slash: [[0.25, 0.75, 0.75, 0.25]],
+  Backslash: [[0.25, 0.25, 0.75, 0.75]],
+  Cross: [
+    [0.25, 0.25, 0.75, 0.75],
+    [0.25, 0.75, 0.75, 0.25],
+  ],
+  HorizontalBar: [[0.25, 0.5, 0.75, 0.5]],
+  VerticalBar: [[0.5, 0.25, 0.5, 0.75]],
+};
+
+// the radius of the circle that draws each pattern, as a fraction of the cube size
+const PatternRadius: { [pattern in CubePattern]: number } = {
+  None: 0,
+  Dot: 0.15,
+  Ring: 0.25,
+  Slash: 0,
+  Backslash: 0,
+  Cross: 0,
+  HorizontalBar: 0,
+  VerticalBar: 0,
+};
+
+/**
+ * Gets the path data that draws the pattern of a cube, so that every pattern can be drawn by a single path element.
+ * @param pattern - The pattern.
+ * @param size - The size of the cube.
+ * @param cubePos - The position of the cube.
+ * @returns The path data, empty for no pattern.
+ */
+export const getPatternPath = (
+  pattern: CubePattern,
+  size: CubeSize,
+  cubePos: CubePosition
+): string => {
+  const x = size.WIDTH * cubePos.x;
+  const y = size.HEIGHT * cubePos.y;
+  const r = PatternRadius[pattern] * size.WIDTH;
+  const lines = PatternLines[pattern].map(
+    ([x1, y1, x2, y2]) =>
+      `M ${x + size.WIDTH * x1} ${y + size.HEIGHT * y1} L ${
+        x + size.WIDTH * x2
+      } ${y + size.HEIGHT * y2}`
+  );
+  // a circle is drawn as two half circle arcs
+  const circle =
+    r > 0
+      ? [
+          `M ${x + size.WIDTH / 2 - r} ${
+            y + size.HEIGHT / 2
+          } a ${r} ${r} 0 1 0 ${2 * r} 0 a ${r} ${r} 0 1 0 ${-2 * r} 0`,
+        ]
+      : [];
+  return [...lines, ...circle].join(" ");
+};
+
+// the key of a cell of a pool, from its position
+const toCellKey = ({ x, y }: CubePosition) => `${x},${y}`;
+
+// the position of a cell of a pool, from its key
+export const fromCellKey = (key: string): CubePosition => {
+  const [x, y] = key.split(",").map(Number);
+  return { x, y };
+};
+
+/* Cell pools */
+
+// The rendered elements are kept between frames and only the attributes of cells whose contents changed are updated.
+// A pool holds these elements for one svg element, together with what they currently show. The pools are the only
+// state the view keeps, they are mutated in place as they mirror the DOM elements they hold.
+
+// a cell of a pool: the rect of the cube and the path of its pattern, and the style they currently show
+type PoolCell = {
+  rect: SVGElement;
+  pattern: SVGElement;
+  style?: CubeStyle;
+};
+
+type Pool = {
+  layout: string; // the columns, rows and cube size the pool was created for
+  cells: ReadonlyMap<string, PoolCell>;
+  background?: string;
+  gridLines: SVGElement; // a single path drawing all the lines between cells
+  gridLinesColor?: string;
+  gameOver?: GameOverOverlay;
+  textPop?: TextPopElement;
+  pause?: PauseOverlay;
+};
+
+// the elements of the pause overlay and what they currently show
+type PauseOverlay = {
+  group: SVGElement;
+  cover: SVGElement;
+  text: SVGElement;
+  visible: boolean;
+  theme?: Theme;
+};
+
+// the elements of the game over box and what they currently show
+type GameOverOverlay = {
+  group: SVGElement;
+  box: SVGElement;
+  text: SVGElement;
+  reasonText: SVGElement;
+  visible: boolean;
+  theme?: Theme;
+  reason?: GameOverReason;
+};
+
+// the text element of the text pop and what it currently shows
+type TextPopElement = {
+  text: SVGElement;
+  style?: string;
+  content?: string;
+};
+
+// the pools of every svg element rendered so far
+const pools = new WeakMap<SVGElement, Pool>();
 
-const createGameOverElement = (svg: SVGElement) => {
-  const gameOverBox = createSvgElement(svg.namespaceURI, "rect", {
-    x: "26",
-    y: "120",
-    fill: "white",
-    height: "48",
-    width: "149",
+/**
+ * Gets the pool of an svg element, creating the cell elements the first time or when the layout has changed.
+ * @param svg - The svg element.
+ * @param columns - The number of columns of cells.
+ * @param rows - The number of rows of cells.
+ * @param size - The size of a cell.
+ * @returns The pool.
+ */
+const getPool = (
+  svg: SVGElement,
+  columns: number,
+  rows: number,
+  size: CubeSize
+): Pool => {
+  const layout = `${columns}x${rows}@${size.WIDTH}x${size.HEIGHT}`;
+  const pool = pools.get(svg);
+  if (pool && pool.layout === layout) {
+    return pool;
+  }
+
+  svg.innerHTML = "";
+  const gridLines = createSvgElement(svg.namespaceURI, "path", {
+    d: getGridLinesPath(columns, rows, size),
+    style: "fill: none; stroke-width: 1px",
   });
-  svg.appendChild(gameOverBox);
+  svg.appendChild(gridLines);
+
+  const cells = new Map(
+    Array.from({ length: rows }).flatMap((_, y) =>
+      Array.from({ length: columns }, (_, x): [string, PoolCell] => {
+        const rect = createSvgElement(svg.namespaceURI, "rect", {
+          height: `${size.HEIGHT}`,
+          width: `${size.WIDTH}`,
+          x: `${size.WIDTH * x}`,
+          y: `${size.HEIGHT * y}`,
+          visibility: "hidden",
+        });
+        const pattern = createSvgElement(svg.namespaceURI, "path", {
+          visibility: "hidden",
+        });
+        svg.appendChild(rect);
+        svg.appendChild(pattern);
+        return [toCellKey({ x, y }), { rect, pattern }];
+      })
+    )
+  );
+
+  const newPool: Pool = { layout, cells, gridLines };
+  pools.set(svg, newPool);
+  return newPool;
+};
+
+/**
+ * Gets the path data that draws the lines between the cells of a grid.
+ * @param columns - The number of columns.
+ * @param rows - The number of rows.
+ * @param size - The size of a cell.
+ * @returns The path data.
+ */
+export const getGridLinesPath = (
+  columns: number,
+  rows: number,
+  size: CubeSize
+): string =>
+  [
+    ...Array.from({ length: columns - 1 }, (_, index) => index + 1).map(
+      (x) => `M ${x * size.WIDTH} 0 V ${rows * size.HEIGHT}`
+    ),
+    ...Array.from({ length: rows - 1 }, (_, index) => index + 1).map(
+      (y) => `M 0 ${y * size.HEIGHT} H ${columns * size.WIDTH}`
+    ),
+  ].join(" ");
+
+// checks if two cube styles paint a cube the same way
+const isSameStyle = (a?: CubeStyle, b?: CubeStyle): boolean =>
+  a === b ||
+  (a !== undefined &&
+    b !== undefined &&
+    a.color === b.color &&
+    a.opacity === b.opacity &&
+    a.outline === b.outline &&
+    a.outlineWidth === b.outlineWidth &&
+    a.pattern === b.pattern &&
+    a.patternColor === b.patternColor);
 
-  const gameOverText = createSvgElement(svg.namespaceURI, "text", {
-    x: "36",
-    y: "150",
+/**
+ * Updates the elements of a cell to show the given style, only touching the DOM if the cell shows something else.
+ * @param cell - The cell of the pool.
+ * @param size - The size of the cell.
+ * @param cubePos - The position of the cell.
+ * @param style - The style to show, undefined for an empty cell.
+ */
+const updateCell = (
+  cell: PoolCell,
+  size: CubeSize,
+  cubePos: CubePosition,
+  style?: CubeStyle
+) => {
+  if (isSameStyle(cell.style, style)) {
+    return;
+  }
+
+  if (!style) {
+    cell.rect.setAttribute("visibility", "hidden");
+    cell.pattern.setAttribute("visibility", "hidden");
+  } else {
+    cell.rect.setAttribute(
+      "style",
+      `fill: ${style.color}; fill-opacity: ${style.opacity}; stroke: ${style.outline}; stroke-width: ${style.outlineWidth}px; stroke-opacity: ${style.opacity}`
+    );
+    cell.rect.setAttribute("visibility", "visible");
+    if (style.pattern === "None") {
+      cell.pattern.setAttribute("visibility", "hidden");
+    } else {
+      cell.pattern.setAttribute(
+        "d",
+        getPatternPath(style.pattern, size, cubePos)
+      );
+      cell.pattern.setAttribute(
+        "style",
+        `fill: ${
+          style.pattern === "Dot" ? style.patternColor : "none"
+        }; stroke: ${style.patternColor}; stroke-width: 2px; opacity: ${
+          style.opacity
+        }`
+      );
+      cell.pattern.setAttribute("visibility", "visible");
+    }
+  }
+  cell.style = style;
+};
+
+/**
+ * Updates every cell of a pool to show the given cubes.
+ * @param pool - The pool.
+ * @param size - The size of a cell.
+ * @param cubes - The cubes to show, the other cells are emptied.
+ */
+const updateCells = (pool: Pool, size: CubeSize, cubes: CubeStyles) =>
+  pool.cells.forEach((cell, key) =>
+    updateCell(cell, size, fromCellKey(key), cubes.get(key))
+  );
+
+// sets the background of an svg element and the color of its grid lines when the theme changes them
+const updateBackground = (
+  svg: SVGElement,
+  pool: Pool,
+  background: string,
+  gridLines: string
+) => {
+  if (pool.background !== background) {
+    svg.style.backgroundColor = background;
+    pool.background = background;
+  }
+  if (pool.gridLinesColor !== gridLines) {
+    pool.gridLines.style.stroke = gridLines;
+    pool.gridLinesColor = gridLines;
+  }
+};
+
+// the size of the game over box and where its texts are drawn in it
+const GameOverBoxLayout = {
+  width: 149,
+  height: 72,
+  textX: 10,
+  textY: 30,
+  reasonY: 58,
+} as const;
+
+/**
+ * Gets where the game over box and its texts are drawn on the board: centered on the board,
+ * and never wider than the board.
+ * @param config - The game config.
+ * @returns The position and size of the box and the position of its texts.
+ */
+export const getGameOverBox = (
+  config: GameConfig
+): {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  textX: number;
+  textY: number;
+  reasonY: number;
+} => {
+  const { CANVAS_WIDTH, CANVAS_HEIGHT } = getViewport(config);
+  const width = Math.min(GameOverBoxLayout.width, CANVAS_WIDTH);
+  const x = Math.round((CANVAS_WIDTH - width) / 2);
+  const y = Math.round((CANVAS_HEIGHT - GameOverBoxLayout.height) / 2);
+  return {
+    x,
+    y,
+    width,
+    height: GameOverBoxLayout.height,
+    textX: x + GameOverBoxLayout.textX,
+    textY: y + GameOverBoxLayout.textY,
+    reasonY: y + GameOverBoxLayout.reasonY,
+  };
+};
+
+/**
+ * Gets the game over box of a pool, creating its elements the first time.
+ * The box is drawn on top of the cells, it is shown and hidden rather than created and removed.
+ * @param svg - The svg element of the pool.
+ * @param pool - The pool.
+ * @param config - The game config, the box is placed on its board.
+ * @returns The game over box.
+ */
+const getGameOverOverlay = (
+  svg: SVGElement,
+  pool: Pool,
+  config: GameConfig
+): GameOverOverlay => {
+  if (pool.gameOver) {
+    return pool.gameOver;
+  }
+
+  const gameOverBox = getGameOverBox(config);
+  const group = createSvgElement(svg.namespaceURI, "g", {
+    visibility: "hidden",
+  });
+  const box = createSvgElement(svg.namespaceURI, "rect", {
+    x: `${gameOverBox.x}`,
+    y: `${gameOverBox.y}`,
+    height: `${gameOverBox.height}`,
+    width: `${gameOverBox.width}`,
   });
-  gameOverText.textContent = "Game Over";
-  svg.appendChild(gameOverText);
+  const text = createSvgElement(svg.namespaceURI, "text", {
+    x: `${gameOverBox.textX}`,
+    y: `${gameOverBox.textY}`,
+  });
+  text.textContent = "Game Over";
+  // the reason the game ended, e.g. BLOCK OUT when a new block could not spawn
+  const reasonText = createSvgElement(svg.namespaceURI, "text", {
+    x: `${gameOverBox.textX}`,
+    y: `${gameOverBox.reasonY}`,
+  });
+  group.appendChild(box);
+  group.appendChild(text);
+  group.appendChild(reasonText);
+  svg.appendChild(group);
+
+  const gameOver: GameOverOverlay = {
+    group,
+    box,
+    text,
+    reasonText,
+    visible: false,
+  };
+  pool.gameOver = gameOver;
+  return gameOver;
 };
 
-export const renderBlock = (block: BlockPosition, svg: SVGElement) =>
-  block.map(createCube(svg, "green"));
+// shows or hides the game over box, only touching the elements whose contents changed
+const updateGameOverOverlay = (
+  svg: SVGElement,
+  pool: Pool,
+  theme: Theme,
+  config: GameConfig,
+  gameEnd: boolean,
+  gameOverReason?: GameOverReason
+) => {
+  if (!gameEnd && !pool.gameOver) {
+    return;
+  }
 
-export const renderOldBlocks = (oldBlocks: BlockPosition[], svg: SVGElement) =>
-  oldBlocks.flatMap((block) => block).forEach(createCube(svg, "green"));
+  const gameOver = getGameOverOverlay(svg, pool, config);
+  if (gameOver.visible !== gameEnd) {
+    gameOver.group.setAttribute("visibility", gameEnd ? "visible" : "hidden");
+    gameOver.visible = gameEnd;
+  }
+  if (gameOver.theme !== theme) {
+    gameOver.box.setAttribute(
+      "style",
+      `fill: ${theme.gameOverBackground}; stroke: ${theme.outline}`
+    );
+    gameOver.text.setAttribute("fill", theme.gameOverText);
+    gameOver.reasonText.setAttribute("fill", theme.gameOverText);
+    gameOver.theme = theme;
+  }
+  if (gameEnd && gameOver.reason !== gameOverReason) {
+    gameOver.reasonText.textContent = gameOverReason ?? "";
+    gameOver.reason = gameOverReason;
+  }
+};
 
-export const renderPreview = (block: BlockPosition, preview: SVGElement) => {
-  preview.innerHTML = "";
+/**
+ * Gets how a text pop looks at its current time: it grows in quickly and fades out at the end.
+ * @param textPop - The text pop.
+ * @returns The font size in px and the opacity of the text.
+ */
+export const getTextPopStyle = (
+  textPop: TextPop
+): { fontSize: number; opacity: number } => {
+  const progress = textPop.timer / Animations.TEXT_POP_MS;
+  return {
+    fontSize: Math.round(16 + 12 * Math.min(progress / 0.2, 1)),
+    opacity:
+      progress < 0.6 ? 1 : Math.round(((1 - progress) / 0.4) * 100) / 100,
+  };
+};
+
+// shows, animates or hides the text pop, only touching the text element when its contents changed
+const updateTextPop = (
+  svg: SVGElement,
+  pool: Pool,
+  theme: Theme,
+  config: GameConfig,
+  textPop?: TextPop
+) => {
+  if (!textPop && !pool.textPop) {
+    return;
+  }
 
+  if (!pool.textPop) {
+    // the text is centered in the upper part of the board
+    const viewport = getViewport(config);
+    const text = createSvgElement(svg.namespaceURI, "text", {
+      x: `${viewport.CANVAS_WIDTH / 2}`,
+      y: `${viewport.CANVAS_HEIGHT / 3}`,
+      "text-anchor": "middle",
+      visibility: "hidden",
+    });
+    svg.appendChild(text);
+    pool.textPop = { text };
+  }
+
+  const element = pool.textPop;
+  const popStyle = textPop && getTextPopStyle(textPop);
+  const style =
+    popStyle &&
+    `fill: ${theme.textPop}; font-size: ${popStyle.fontSize}px; font-weight: bold; opacity: ${popStyle.opacity}`;
+  if (element.style !== style) {
+    if (style) {
+      element.text.setAttribute("style", style);
+    }
+    element.text.setAttribute("visibility", style ? "visible" : "hidden");
+    element.style = style;
+  }
+  if (textPop && element.content !== textPop.text) {
+    element.text.textContent = textPop.text;
+    element.content = textPop.text;
+  }
+};
+
+// shows or hides the pause overlay, which covers the whole board so that a paused game cannot be studied
+const updatePauseOverlay = (
+  svg: SVGElement,
+  pool: Pool,
+  theme: Theme,
+  config: GameConfig,
+  paused: boolean
+) => {
+  if (!paused && !pool.pause) {
+    return;
+  }
+
+  if (!pool.pause) {
+    const viewport = getViewport(config);
+    const group = createSvgElement(svg.namespaceURI, "g", {
+      visibility: "hidden",
+    });
+    const cover = createSvgElement(svg.namespaceURI, "rect", {
+      x: "0",
+      y: "0",
+      height: `${viewport.CANVAS_HEIGHT}`,
+      width: `${viewport.CANVAS_WIDTH}`,
+    });
+    const text = createSvgElement(svg.namespaceURI, "text", {
+      x: `${viewport.CANVAS_WIDTH / 2}`,
+      y: `${viewport.CANVAS_HEIGHT / 2}`,
+      "text-anchor": "middle",
+      style: "font-size: 24px; font-weight: bold",
+    });
+    text.textContent = "PAUSED";
+    group.appendChild(cover);
+    group.appendChild(text);
+    svg.appendChild(group);
+    pool.pause = { group, cover, text, visible: false };
+  }
+
+  const pause = pool.pause;
+  if (pause.visible !== paused) {
+    pause.group.setAttribute("visibility", paused ? "visible" : "hidden");
+    pause.visible = paused;
+  }
+  if (pause.theme !== theme) {
+    pause.cover.setAttribute("fill", theme.background);
+    pause.text.setAttribute("fill", theme.textPop);
+    pause.theme = theme;
+  }
+};
+
+/* Board */
+
+// moves cubes from grid coordinates to canvas rows, the hidden buffer zone ends up above the canvas and is not drawn
+const toVisibleGrid = <T extends CubePosition>(
+  block: ReadonlyArray<T>,
+  config: GameConfig
+): T[] => block.map((cube) => ({ ...cube, y: cube.y - config.bufferHeight }));
+
+// gets the cubes of a block in the given style, keyed by their position on the canvas
+const getBlockCubes = (
+  block: BlockPosition,
+  style: CubeStyle
+): Array<[string, CubeStyle]> =>
+  block.map((cubePos) => [toCellKey(cubePos), style]);
+
+/**
+ * Gets the style of a locked cube. The cubes of the block that locked last flash,
+ * and the cubes of the rows being cleared flash for the first half of the line clear delay
+ * and then vanish from the middle of the row outwards.
+ * @param cell - The locked cell, in grid coordinates.
+ * @param state - The game state.
+ * @param theme - The theme.
+ * @returns The cube style, undefined if the cube has already vanished.
+ */
+const getLockedCubeStyle = (
+  cell: FilledCell,
+  { clearingRows, clearTimer, lockFlash, config }: State,
+  theme: Theme
+): CubeStyle | undefined => {
+  const style = getCubeStyle(theme, cell.type);
+  const flashStyle = { ...style, color: theme.flash };
+
+  if (clearingRows.includes(cell.y)) {
+    const progress = clearTimer / config.lineClearDelay;
+    if (progress < 0.5) {
+      return Math.floor(clearTimer / Animations.ROW_FLASH_MS) % 2 === 0
+        ? flashStyle
+        : style;
+    }
+    const distanceFromMiddle = Math.abs(cell.x + 0.5 - config.width / 2);
+    return distanceFromMiddle < (progress - 0.5) * config.width
+      ? undefined
+      : flashStyle;
+  }
+
+  return lockFlash &&
+    lockFlash.cubes.some(({ x, y }) => x === cell.x && y === cell.y)
+    ? flashStyle
+    : style;
+};
+
+/**
+ * Gets the cubes to draw on the board canvas: the locked blocks in the color of the block each cell was taken by,
+ * with the lock flash and line clear animations, the ghost block translucently where the current block will land and the current block on top.
+ * @param state - The game state.
+ * @param theme - The theme.
+ * @returns The cubes to draw, keyed by their position on the canvas.
+ */
+export const getBoardCubes = (state: State, theme: Theme): CubeStyles => {
+  const { board, currentBlock, config } = state;
+  const ghostBlock = dropBlock(currentBlock, board, config);
+  return new Map([
+    ...getFilledCells(board).flatMap((cell): Array<[string, CubeStyle]> => {
+      const style = getLockedCubeStyle(cell, state, theme);
+      return style ? getBlockCubes(toVisibleGrid([cell], config), style) : [];
+    }),
+    ...(ghostBlock
+      ? getBlockCubes(
+          toVisibleGrid(getCubes(ghostBlock), config),
+          getCubeStyle(theme, ghostBlock.shape, theme.ghostOpacity)
+        )
+      : []),
+    ...(currentBlock
+      ? getBlockCubes(
+          toVisibleGrid(getCubes(currentBlock), config),
+          getCubeStyle(theme, currentBlock.shape)
+        )
+      : []),
+  ]);
+};
+
+/* Preview and hold boxes */
+
+// height of each slot of the next queue preview, in cubes
+const PREVIEW_SLOT_ROWS = Viewport.PREVIEW_SLOT_HEIGHT / PreviewCube.HEIGHT;
+
+// number of columns of cubes in the preview and hold boxes
+const PREVIEW_COLUMNS = Viewport.PREVIEW_WIDTH / PreviewCube.WIDTH;
+
+// gets the cubes of a block in a preview box, in the slot-th slot from the top
+const getPreviewBlockCubes = (
+  block: BlockPosition,
+  style: CubeStyle,
+  slot: number
+): Array<[string, CubeStyle]> => {
   // we take relative position of each cube in the block since we want to render the block in the middle of the preview
   // this is not by default as the positions are actually the random x and y positions from the block generator
   const minX = Math.min(...block.map((pos) => pos.x));
@@ -58,30 +692,409 @@ export const renderPreview = (block: BlockPosition, preview: SVGElement) => {
 
   const relativeBlock = block.map(({ x, y }) => ({
     x: x - minX + 3,
-    y: y - minY + 1,
+    y: y - minY + 1 + slot * PREVIEW_SLOT_ROWS,
   }));
 
-  relativeBlock.map(createCube(preview, "brown"));
+  return getBlockCubes(relativeBlock, style);
 };
 
-export const render = (
-  { gameEnd, currentBlock, nextBlock, oldBlocks, score, highScore }: State,
+// renders a preview box with the given cubes
+const renderPreviewBox = (
   svg: SVGElement,
-  scoreElement: HTMLElement,
-  highScoreElement: HTMLElement,
-  preview?: SVGElement
+  height: number,
+  theme: Theme,
+  cubes: CubeStyles
 ) => {
-  svg.innerHTML = "";
+  const pool = getPool(
+    svg,
+    PREVIEW_COLUMNS,
+    height / PreviewCube.HEIGHT,
+    PreviewCube
+  );
+  updateBackground(svg, pool, theme.previewBackground, "transparent");
+  updateCells(pool, PreviewCube, cubes);
+};
+
+// gets the cubes of the queue of next blocks stacked vertically, the next block at the top
+export const getPreviewCubes = (
+  nextBlocks: ReadonlyArray<Piece>,
+  theme: Theme
+): CubeStyles =>
+  new Map(
+    nextBlocks.flatMap((block, slot) =>
+      getPreviewBlockCubes(
+        getCubes(block),
+        getCubeStyle(theme, block.shape),
+        slot
+      )
+    )
+  );
+
+// gets the cubes of the held shape in the hold box, greyed out while holding is not available
+export const getHoldCubes = (
+  holdBlock: ShapeType | undefined,
+  canHold: boolean,
+  config: GameConfig,
+  theme: Theme
+): CubeStyles =>
+  new Map(
+    holdBlock
+      ? getPreviewBlockCubes(
+          getCubes(createSpawnPiece(holdBlock, config)),
+          canHold
+            ? getCubeStyle(theme, holdBlock)
+            : { ...getCubeStyle(theme, holdBlock), color: theme.disabled },
+          0
+        )
+      : []
+  );
+
+/* Score panel */
+
+/**
+ * Gets the text describing the last clear, e.g. "B2B T-SPIN DOUBLE" or "TETRIS 2 COMBO".
+ * @param lastClear - The last clear that scored points.
+ * @returns The text to display.
+ */
+const getClearText = (lastClear?: ClearInfo): string =>
+  lastClear
+    ? [
+        lastClear.backToBack ? "B2B" : "",
+        lastClear.type,
+        lastClear.combo > 0 ? `${lastClear.combo} COMBO` : "",
+      ]
+        .filter((text) => text !== "")
+        .join(" ")
+    : "";
+
+// sets the text of an element, only touching the DOM if the text changed
+const updateText = (element: HTMLElement, text: string) => {
+  if (element.textContent !== text) {
+    element.textContent = text;
+  }
+};
+
+/**
+ * Formats a duration as minutes and seconds, e.g. 2:05, or with hundredths of a second, e.g. 2:05.37.
+ * @param duration - The duration in ms.
+ * @param hundredths - Whether to show the hundredths of a second.
+ * @returns The formatted duration.
+ */
+export const formatDuration = (
+  duration: number,
+  hundredths = false
+): string => {
+  const seconds = Math.floor(duration / 1000);
+  const text = `${Math.floor(seconds / 60)}:${`${seconds % 60}`.padStart(
+    2,
+    "0"
+  )}`;
+  return hundredths
+    ? `${text}.${`${Math.floor((duration % 1000) / 10)}`.padStart(2, "0")}`
+    : text;
+};
+
+/**
+ * Gets the text of the mode and how far the game is from its goal, e.g. "Sprint 12 / 40 lines".
+ * @param state - The game state.
+ * @returns The text to display.
+ */
+const getModeText = ({ config, level, lines, board }: State): string => {
+  const { lineGoal, maxLevel, garbageRows } = GameModes[config.mode];
+  return lineGoal !== undefined
+    ? `${config.mode} ${Math.min(lines, lineGoal)} / ${lineGoal} lines`
+    : garbageRows !== undefined
+    ? `${config.mode} ${countGarbageRows(board)} rows left`
+    : maxLevel !== undefined
+    ? `${config.mode} level ${Math.min(level, maxLevel)} / ${maxLevel}`
+    : config.mode;
+};
+
+/**
+ * Gets the time to show in the HUD: the time left in a mode with a time limit, otherwise the time played.
+ * @param state - The game state.
+ * @returns The time in ms.
+ */
+const getTimerTime = ({ config, elapsed }: State): number => {
+  const { timeLimit } = GameModes[config.mode];
+  return timeLimit !== undefined ? Math.max(timeLimit - elapsed, 0) : elapsed;
+};
+
+/**
+ * Renders the info panel, which is made of html elements whatever the renderer draws the game with.
+ * The timer only shows whole seconds so that it does not touch the DOM on every tick.
+ * @param state - The game state to render.
+ * @param textElements - The elements of the info panel.
+ */
+export const renderScorePanel = (state: State, textElements: TextElements) => {
+  const { score, highScore, level, lines, lastClear } = state;
+  updateText(textElements.score, `${score}`);
+
+  updateText(
+    textElements.highScore,
+    `${highScore > score ? highScore : score}`
+  );
+
+  updateText(textElements.level, `${level}`);
 
-  scoreElement.textContent = `${score}`;
+  updateText(textElements.lines, `${lines}`);
+
+  updateText(textElements.lastClear, getClearText(lastClear));
+
+  updateText(textElements.mode, getModeText(state));
+
+  updateText(textElements.timer, formatDuration(getTimerTime(state)));
+};
+
+/**
+ * Checks if the game over box is shown over the board. A mode with results shows the results screen instead.
+ * @param state - The game state.
+ * @returns Whether the game over box is shown.
+ */
+export const isGameOverBoxShown = (state: State): boolean =>
+  state.gameEnd && !GameModes[state.config.mode].showResults;
+
+/**
+ * Renders the results screen, shown over the board when a game of a mode with results has ended until the player restarts.
+ * @param state - The game state to render.
+ * @param elements - The elements of the results screen.
+ */
+export const renderResultsPanel = (
+  { gameEnd, gameOverReason, lastResult, config }: State,
+  elements: ResultsElements
+) => {
+  const shown =
+    gameEnd && lastResult !== undefined && GameModes[config.mode].showResults;
+  if (elements.panel.hidden === shown) {
+    elements.panel.hidden = !shown;
+  }
+  if (shown) {
+    updateText(elements.reason, `${config.mode}: ${gameOverReason ?? ""}`);
+    updateText(elements.score, `${lastResult.score}`);
+    updateText(elements.lines, `${lastResult.lines}`);
+    updateText(elements.level, `${lastResult.level}`);
+    updateText(elements.time, formatDuration(lastResult.duration, true));
+  }
+};
 
-  highScoreElement.textContent = `${highScore > score ? highScore : score}`;
+/* Versus */
 
-  currentBlock && renderBlock(currentBlock, svg);
+/**
+ * Renders the meter of the garbage rows the opponent sent in versus, which are pushed up once a block locks without clearing rows.
+ * @param state - The game state of the player.
+ * @param meter - The meter next to the board of the player.
+ */
+export const renderGarbageMeter = (
+  { pendingGarbage }: State,
+  meter: HTMLMeterElement
+) => {
+  if (meter.value !== pendingGarbage) {
+    meter.value = pendingGarbage;
+    meter.title = `${pendingGarbage} garbage rows incoming`;
+  }
+};
+
+/**
+ * Renders the outcome of a versus match above the boards, nothing while both players are playing.
+ * @param versus - The state of the match.
+ * @param element - The element showing the outcome.
+ */
+export const renderVersusResult = (
+  { winner }: VersusState,
+  element: HTMLElement
+) =>
+  updateText(
+    element,
+    winner === undefined
+      ? ""
+      : `${
+          winner === "Draw" ? "Draw!" : `Player ${winner + 1} wins!`
+        } Press Restart to play again`
+  );
+
+/**
+ * Gets the text telling the player of an online match what is going on, e.g. who won the match.
+ * @param online - The state of the client.
+ * @returns The text.
+ */
+const getOnlineStatus = ({
+  phase,
+  code,
+  player,
+  opponentJoined,
+  ready,
+  countdown,
+  winner,
+}: OnlineState): string => {
+  const waiting = ready
+    ? "waiting for your opponent to be ready"
+    : "press Ready to play";
+  switch (phase) {
+    case "Lobby":
+      return "Create a room or join one with its code";
+    case "Room":
+      return `Room ${code}: ${
+        opponentJoined ? waiting : "waiting for an opponent to join"
+      }`;
+    case "Countdown":
+      return `Starting in ${Math.ceil(countdown / 1000)}`;
+    case "Playing":
+      return `Room ${code}: playing`;
+    case "Over":
+      return `${winner === player ? "You win!" : "You lose!"} Room ${code}: ${
+        ready ? waiting : "press Ready for a rematch"
+      }`;
+    case "Disconnected":
+      return "Reload the page to connect again";
+  }
+};
+
+/**
+ * Renders the status of an online match, with what went wrong last in front of it.
+ * @param online - The state of the client.
+ * @param element - The element showing the status.
+ */
+export const renderOnlineStatus = (online: OnlineState, element: HTMLElement) =>
+  updateText(
+    element,
+    [online.error, getOnlineStatus(online)]
+      .filter((text) => text !== undefined)
+      .join(". ")
+  );
+
+/* Settings panel */
+
+/**
+ * Renders the settings panel: the keys bound to each action and the auto repeat settings.
+ * @param settings - The input settings.
+ * @param elements - The elements of the settings panel.
+ */
+export const renderSettingsPanel = (
+  settings: InputSettings,
+  elements: SettingsElements
+) => {
+  Object.entries(settings.keyBindings).forEach(([action, keys]) =>
+    updateText(
+      elements.keys[action as InputAction],
+      keys.length > 0 ? keys.map(getKeyName).join(", ") : "none"
+    )
+  );
+  // a button waiting for a key goes back to normal once the key is bound
+  elements.bindButtons.forEach((button) => updateText(button, "Add key"));
+  elements.das.value = `${settings.das}`;
+  elements.arr.value = `${settings.arr}`;
+  elements.softDropFactor.value = `${settings.softDropFactor}`;
+};
+
+/**
+ * Renders the leaderboard panel: a row for each game of a mode on the leaderboard, best first.
+ * The rows are drawn again from scratch as the leaderboard only changes when a game ends or a leaderboard is imported.
+ * @param leaderboard - The leaderboard.
+ * @param mode - The mode whose games are shown.
+ * @param table - The table body to render the rows into.
+ */
+export const renderLeaderboard = (
+  leaderboard: Leaderboard,
+  mode: GameModeName,
+  table: HTMLElement
+) => {
+  const rows = getModeLeaderboard(leaderboard, mode).map((entry, index) => {
+    const row = document.createElement("tr");
+    [
+      `${index + 1}`,
+      entry.name,
+      `${entry.score}`,
+      `${entry.lines}`,
+      `${entry.level}`,
+      formatDuration(entry.duration, true),
+      new Date(entry.date).toLocaleDateString(),
+    ].forEach((text) => {
+      const cell = document.createElement("td");
+      cell.textContent = text;
+      row.appendChild(cell);
+    });
+    return row;
+  });
+  table.replaceChildren(...rows);
+};
 
-  nextBlock && renderPreview(nextBlock, preview!);
+/* Renderers */
 
-  renderOldBlocks(oldBlocks, svg);
+/**
+ * Creates the renderer that draws the game into svg elements.
+ * The rendered elements are kept between frames and only the cells, texts and boxes whose contents changed are updated.
+ * @param elements - The svg elements to draw into and the elements of the info panel.
+ * @returns The svg renderer.
+ */
+export const createSvgRenderer = ({
+  board,
+  preview,
+  hold,
+  textElements,
+}: SvgRendererElements): Renderer => ({
+  resize: (config: GameConfig) => {
+    const viewport = getViewport(config);
+    board.setAttribute("height", `${viewport.CANVAS_HEIGHT}`);
+    board.setAttribute("width", `${viewport.CANVAS_WIDTH}`);
+    preview?.setAttribute("height", `${viewport.PREVIEW_HEIGHT}`);
+    preview?.setAttribute("width", `${viewport.PREVIEW_WIDTH}`);
+    hold?.setAttribute("height", `${viewport.HOLD_HEIGHT}`);
+    hold?.setAttribute("width", `${viewport.PREVIEW_WIDTH}`);
+  },
+  renderBoard: (state: State, theme: Theme) => {
+    const cube = getCube(state.config);
+    const pool = getPool(board, state.config.width, state.config.height, cube);
+    updateBackground(board, pool, theme.background, theme.gridLines);
+    updateCells(pool, cube, getBoardCubes(state, theme));
+  },
+  renderPreview: (state: State, theme: Theme) =>
+    preview &&
+    renderPreviewBox(
+      preview,
+      getViewport(state.config).PREVIEW_HEIGHT,
+      theme,
+      getPreviewCubes(state.nextBlocks, theme)
+    ),
+  renderHold: (state: State, theme: Theme) =>
+    hold &&
+    renderPreviewBox(
+      hold,
+      getViewport(state.config).HOLD_HEIGHT,
+      theme,
+      getHoldCubes(state.holdBlock, state.canHold, state.config, theme)
+    ),
+  renderScore: (state: State) =>
+    textElements && renderScorePanel(state, textElements),
+  renderOverlay: (state: State, theme: Theme) => {
+    const pool = getPool(
+      board,
+      state.config.width,
+      state.config.height,
+      getCube(state.config)
+    );
+    updateTextPop(board, pool, theme, state.config, state.textPop);
+    updatePauseOverlay(board, pool, theme, state.config, state.paused);
+    updateGameOverOverlay(
+      board,
+      pool,
+      theme,
+      state.config,
+      isGameOverBoxShown(state),
+      state.gameOverReason
+    );
+  },
+});
 
-  gameEnd && createGameOverElement(svg);
+/**
+ * Renders a game state with a renderer.
+ * @param renderer - The renderer to draw with.
+ * @param state - The game state to render.
+ * @param theme - The theme to draw with.
+ */
+export const renderGame = (renderer: Renderer, state: State, theme: Theme) => {
+  renderer.renderScore(state);
+  renderer.renderBoard(state, theme);
+  renderer.renderPreview(state, theme);
+  renderer.renderHold(state, theme);
+  renderer.renderOverlay(state, theme);
 };
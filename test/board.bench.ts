@@ -0,0 +1,171 @@
+import { bench, describe } from "vitest";
+import {
+  clearFullRows,
+  createBoard,
+  getFilledCells,
+  placeBlock,
+} from "../src/board";
+import { DefaultConfig } from "../src/constants";
+import { createGame } from "../src/engine";
+import { gameActions } from "../src/game";
+import {
+  dropBlock,
+  getGridHeight,
+  hasObjectCollidedDown,
+} from "../src/generics";
+import { getCubes } from "../src/shapes";
+import {
+  BlockPosition,
+  Board,
+  CubePosition,
+  Game,
+  GameEvent,
+  Piece,
+  ShapeType,
+  State,
+} from "../src/types";
+
+const config = DefaultConfig;
+
+/* The cube list representation the board was stored in before the occupancy grid */
+
+const legacyCollidedDown = (
+  block: BlockPosition,
+  oldBlocks: BlockPosition[]
+): boolean =>
+  oldBlocks.some((oldObject) =>
+    oldObject.some((oldPos) =>
+      block.some((pos) => oldPos.x === pos.x && oldPos.y === pos.y + 1)
+    )
+  );
+
+const legacyClearFullRows = (oldBlocks: BlockPosition[]): BlockPosition[] => {
+  const rows = Array.from({ length: getGridHeight(config) }, (_, index) =>
+    oldBlocks.reduce(
+      (row, block) => [...row, ...block.filter((cube) => cube.y === index)],
+      [] as ReadonlyArray<CubePosition>
+    )
+  );
+  const fullRows = rows
+    .map((row, index) => (row.length === config.width ? index : -1))
+    .filter((index) => index !== -1);
+
+  if (fullRows.length === 0) {
+    return oldBlocks;
+  }
+
+  return oldBlocks
+    .map((block) => block.filter((cubePos) => !fullRows.includes(cubePos.y)))
+    .filter((block) => block.length > 0)
+    .map((block) =>
+      block.map((cube) => {
+        const rowsClearedBelow = fullRows.filter((row) => row > cube.y).length;
+        return rowsClearedBelow > 0
+          ? { x: cube.x, y: cube.y + rowsClearedBelow }
+          : cube;
+      })
+    );
+};
+
+/* A long game */
+
+type Drop = Readonly<{
+  block: BlockPosition;
+  shape: ShapeType;
+  boardEmpty: boolean;
+}>;
+
+// ticks until a block is falling, which skips the game over box after a game over
+const spawnBlock = (game: Game): Piece => {
+  const { currentBlock } = game.getState();
+  if (currentBlock) {
+    return currentBlock;
+  }
+  game.step("Tick");
+  return spawnBlock(game);
+};
+
+// the events that rotate a block clockwise a number of times and then shift it sideways
+const getPlacementEvents = (rotations: number, shift: number): GameEvent[] => [
+  ...Array.from({ length: rotations }, (): GameEvent => "RotateClockwise"),
+  ...Array.from(
+    { length: Math.abs(shift) },
+    (): GameEvent => (shift < 0 ? "Left" : "Right")
+  ),
+];
+
+// picks the placement where the dropped block ends up the deepest, which keeps the stack low and clears rows
+const findDeepestPlacement = (state: State): GameEvent[] =>
+  [0, 1, 2, 3]
+    .flatMap((rotations) =>
+      Array.from({ length: 11 }, (_, index) =>
+        getPlacementEvents(rotations, index - 5)
+      )
+    )
+    .map((events) => {
+      const placed = events.reduce((s, event) => gameActions[event](s), state);
+      const dropped = dropBlock(placed.currentBlock, placed.board, config);
+      const depth = dropped
+        ? getCubes(dropped).reduce((sum, { y }) => sum + y, 0)
+        : 0;
+      return { events, depth };
+    })
+    .reduce((best, placement) =>
+      placement.depth > best.depth ? placement : best
+    ).events;
+
+// plays a long game and records every dropped block before it falls,
+// and whether the board was empty afterwards (after a game over or a perfect clear)
+const recordLongGame = (pieces: number, seed: number): Drop[] => {
+  const game = createGame(config, seed);
+
+  return Array.from({ length: pieces }).map((): Drop => {
+    spawnBlock(game);
+    findDeepestPlacement(game.getState()).forEach(game.step);
+    const piece = spawnBlock(game);
+    const { board } = game.step("HardDrop");
+    return {
+      block: getCubes(piece),
+      shape: piece.shape,
+      // the full rows are only removed after the line clear delay
+      boardEmpty:
+        getFilledCells(clearFullRows(board, config).newBoard).length === 0,
+    };
+  });
+};
+
+const drops = recordLongGame(1000, 2102);
+
+// moves a block down one row at a time, checking for collisions like every gravity tick does, and locks it at the bottom
+const fallBlock = (
+  block: BlockPosition,
+  hasCollidedDown: (block: BlockPosition) => boolean
+): BlockPosition =>
+  block.some((cube) => cube.y >= getGridHeight(config) - 1) ||
+  hasCollidedDown(block)
+    ? block
+    : fallBlock(
+        block.map(({ x, y }) => ({ x, y: y + 1 })),
+        hasCollidedDown
+      );
+
+describe("playing the blocks of a long game", () => {
+  bench("occupancy grid", () => {
+    drops.reduce<Board>((board, { block, shape, boardEmpty }) => {
+      const landed = fallBlock(block, (b) => hasObjectCollidedDown(b, board));
+      const { newBoard } = clearFullRows(
+        placeBlock(board, landed, shape),
+        config
+      );
+      return boardEmpty ? createBoard(config) : newBoard;
+    }, createBoard(config));
+  });
+
+  bench("cube lists", () => {
+    drops.reduce<BlockPosition[]>((oldBlocks, { block, boardEmpty }) => {
+      const landed = fallBlock(block, (b) => legacyCollidedDown(b, oldBlocks));
+      const newBlocks = legacyClearFullRows([...oldBlocks, landed]);
+      return boardEmpty ? [] : newBlocks;
+    }, []);
+  });
+});
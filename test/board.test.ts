@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+  addGarbageRows,
+  clearFullRows,
+  countGarbageRows,
+  createBoard,
+  getFilledCells,
+  getFullRows,
+  isCellFilled,
+  MAX_BOARD_WIDTH,
+  placeBlock,
+} from "../src/board";
+import { DefaultConfig } from "../src/constants";
+import { BlockPosition, GameConfig } from "../src/types";
+
+// the cells of a row from the first column up to the last one
+const rowOf = (y: number, from: number, to: number): BlockPosition =>
+  Array.from({ length: to - from + 1 }, (_, index) => ({ x: from + index, y }));
+
+const bottom = DefaultConfig.height + DefaultConfig.bufferHeight - 1;
+
+describe("board", () => {
+  it("covers the visible rows and the buffer zone with empty cells", () => {
+    const board = createBoard(DefaultConfig);
+    expect(board.rows).toHaveLength(bottom + 1);
+    expect(board.cells.every((row) => row.length === DefaultConfig.width)).toBe(
+      true
+    );
+    expect(getFilledCells(board)).toEqual([]);
+  });
+
+  it("places the cubes of a block with their shape and leaves the board it was given as is", () => {
+    const board = createBoard(DefaultConfig);
+    const placed = placeBlock(
+      board,
+      [
+        { x: 0, y: bottom },
+        { x: 1, y: bottom },
+        { x: 1, y: bottom - 1 },
+      ],
+      "S"
+    );
+    expect(getFilledCells(placed)).toEqual([
+      { x: 1, y: bottom - 1, type: "S" },
+      { x: 0, y: bottom, type: "S" },
+      { x: 1, y: bottom, type: "S" },
+    ]);
+    expect(isCellFilled(placed, { x: 1, y: bottom - 1 })).toBe(true);
+    expect(isCellFilled(placed, { x: 0, y: bottom - 1 })).toBe(false);
+    expect(getFilledCells(board)).toEqual([]);
+    // rows without any of the cubes are shared with the board they came from
+    expect(placed.cells[0]).toBe(board.cells[0]);
+  });
+
+  it("never finds cells outside the board taken", () => {
+    const board = placeBlock(
+      createBoard(DefaultConfig),
+      rowOf(bottom, 0, DefaultConfig.width - 1),
+      "I"
+    );
+    expect(isCellFilled(board, { x: -1, y: bottom })).toBe(false);
+    expect(isCellFilled(board, { x: MAX_BOARD_WIDTH, y: bottom })).toBe(false);
+    expect(isCellFilled(board, { x: 0, y: bottom + 1 })).toBe(false);
+    expect(isCellFilled(board, { x: 0, y: -1 })).toBe(false);
+  });
+
+  it("clears the full rows only, shifting the rows above them down", () => {
+    const board = placeBlock(
+      createBoard(DefaultConfig),
+      [
+        ...rowOf(bottom, 0, DefaultConfig.width - 1),
+        ...rowOf(bottom - 1, 0, DefaultConfig.width - 2),
+        ...rowOf(bottom - 2, 0, DefaultConfig.width - 1),
+        { x: 4, y: bottom - 3 },
+      ],
+      "L"
+    );
+    expect(getFullRows(board, DefaultConfig)).toEqual([bottom - 2, bottom]);
+
+    const { newBoard, clearedRows } = clearFullRows(board, DefaultConfig);
+    expect(clearedRows).toBe(2);
+    expect(newBoard.rows).toHaveLength(board.rows.length);
+    expect(getFullRows(newBoard, DefaultConfig)).toEqual([]);
+    expect(getFilledCells(newBoard)).toEqual([
+      { x: 4, y: bottom - 1, type: "L" },
+      ...rowOf(bottom, 0, DefaultConfig.width - 2).map((cube) => ({
+        ...cube,
+        type: "L",
+      })),
+    ]);
+    expect(clearFullRows(newBoard, DefaultConfig).newBoard).toBe(newBoard);
+  });
+
+  it("pushes garbage rows up from below and tells when taken cells go over the top", () => {
+    const board = placeBlock(createBoard(DefaultConfig), [{ x: 2, y: 1 }], "T");
+    const once = addGarbageRows(board, [3], DefaultConfig);
+    expect(once.overflow).toBe(false);
+    expect(isCellFilled(once.newBoard, { x: 2, y: 0 })).toBe(true);
+    expect(isCellFilled(once.newBoard, { x: 3, y: bottom })).toBe(false);
+    expect(
+      rowOf(bottom, 0, DefaultConfig.width - 1).filter((cube) =>
+        isCellFilled(once.newBoard, cube)
+      )
+    ).toHaveLength(DefaultConfig.width - 1);
+    expect(countGarbageRows(once.newBoard)).toBe(1);
+    expect(getFullRows(once.newBoard, DefaultConfig)).toEqual([]);
+
+    const twice = addGarbageRows(once.newBoard, [0, 9], DefaultConfig);
+    expect(twice.overflow).toBe(true);
+    expect(twice.newBoard.rows).toHaveLength(board.rows.length);
+    expect(countGarbageRows(twice.newBoard)).toBe(3);
+    expect(
+      getFilledCells(twice.newBoard).some(({ type }) => type === "T")
+    ).toBe(false);
+  });
+
+  it("fills and clears the rows of a board as wide as the widest board", () => {
+    const config: GameConfig = { ...DefaultConfig, width: MAX_BOARD_WIDTH };
+    const board = placeBlock(
+      createBoard(config),
+      [
+        ...rowOf(bottom, 0, MAX_BOARD_WIDTH - 1),
+        { x: MAX_BOARD_WIDTH - 1, y: 0 },
+      ],
+      "J"
+    );
+    expect(isCellFilled(board, { x: MAX_BOARD_WIDTH - 1, y: 0 })).toBe(true);
+    expect(isCellFilled(board, { x: MAX_BOARD_WIDTH - 2, y: 0 })).toBe(false);
+    expect(getFullRows(board, config)).toEqual([bottom]);
+    // a row missing only its last cell is not full
+    expect(
+      getFullRows(
+        placeBlock(
+          createBoard(config),
+          rowOf(bottom, 0, MAX_BOARD_WIDTH - 2),
+          "J"
+        ),
+        config
+      )
+    ).toEqual([]);
+
+    const { newBoard, clearedRows } = clearFullRows(board, config);
+    expect(clearedRows).toBe(1);
+    expect(getFilledCells(newBoard)).toEqual([
+      { x: MAX_BOARD_WIDTH - 1, y: 1, type: "J" },
+    ]);
+    const garbage = addGarbageRows(newBoard, [MAX_BOARD_WIDTH - 1], config);
+    expect(isCellFilled(garbage.newBoard, { x: 0, y: bottom })).toBe(true);
+    expect(
+      isCellFilled(garbage.newBoard, { x: MAX_BOARD_WIDTH - 1, y: bottom })
+    ).toBe(false);
+    expect(getFullRows(garbage.newBoard, config)).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { createBoard, getFilledCells, placeBlock } from "../src/board";
+import {
+  findPlacements,
+  getBoardFeatures,
+  getBotMoves,
+  parseBotWeights,
+  playBotGame,
+} from "../src/bot";
+import { DefaultBotWeights, DefaultConfig } from "../src/constants";
+import { createInitialState, gameActions } from "../src/game";
+import { getCubes } from "../src/shapes";
+import { GameEvent, State } from "../src/types";
+
+// the cells of the locked blocks, without their types
+const getLockedCells = (state: State) =>
+  getFilledCells(state.board).map(({ x, y }) => ({ x, y }));
+
+describe("bot", () => {
+  it("drops the block exactly where each placement says with the moves of the game", () => {
+    // seed 5 starts with an O block, which fits in 9 columns of an empty board in any orientation
+    const state = gameActions.Tick(createInitialState(DefaultConfig, 5));
+    const placements = findPlacements(state);
+    expect(placements).toHaveLength(DefaultConfig.width - 1);
+
+    placements.forEach(({ block, events }) => {
+      const played = events.reduce((s, event) => gameActions[event](s), state);
+      expect(getLockedCells(played)).toEqual(
+        expect.arrayContaining(getCubes(block).map(({ x, y }) => ({ x, y })))
+      );
+      expect(events[events.length - 1]).toBe<GameEvent>("HardDrop");
+    });
+    expect(getBotMoves({ ...state, paused: true })).toEqual([]);
+  });
+
+  it("measures the height, holes, bumpiness and wells of a board", () => {
+    const bottom = DefaultConfig.height + DefaultConfig.bufferHeight - 1;
+    // columns 0 and 1 are 2 high with a hole under column 1, column 3 is 1 high, the rest is empty
+    const board = placeBlock(
+      createBoard(DefaultConfig),
+      [
+        { x: 0, y: bottom },
+        { x: 0, y: bottom - 1 },
+        { x: 1, y: bottom - 1 },
+        { x: 3, y: bottom },
+      ],
+      "O"
+    );
+    expect(getBoardFeatures(board, DefaultConfig, 1)).toEqual({
+      aggregateHeight: 5,
+      holes: 1,
+      bumpiness: 2 + 1 + 1,
+      linesCleared: 1,
+      wells: 1,
+    });
+  });
+
+  it("clears lines in a seeded game and takes its weights from JSON", () => {
+    const played = playBotGame(DefaultConfig, 1, DefaultBotWeights, 3000);
+    expect(played.lines).toBeGreaterThan(0);
+    expect(playBotGame(DefaultConfig, 1, DefaultBotWeights, 3000)).toEqual(
+      played
+    );
+
+    expect(parseBotWeights('{"holes": -1}')).toEqual({
+      ...DefaultBotWeights,
+      holes: -1,
+    });
+    expect(() => parseBotWeights('{"height": -1}')).toThrow(
+      "Unknown bot weight height"
+    );
+    expect(() => parseBotWeights('{"toString": -1}')).toThrow(
+      "Unknown bot weight toString"
+    );
+  });
+});
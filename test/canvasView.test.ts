@@ -0,0 +1,127 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createCanvasRenderer } from "../src/canvasView";
+import { DefaultConfig, getViewport, Themes } from "../src/constants";
+import { createInitialState, gameActions } from "../src/game";
+import { RenderCanvas, Renderer, State } from "../src/types";
+import { getGameOverBox, renderGame } from "../src/view";
+
+// a call made on a stubbed 2d context
+type ContextCall = { method: string; args: unknown[] };
+
+/**
+ * Creates a canvas whose 2d context only records the calls made on it, the properties set on it are kept as they are.
+ * @returns The canvas and the calls made on its context.
+ */
+const createStubCanvas = () => {
+  const calls: ContextCall[] = [];
+  const properties: Record<string, unknown> = {};
+  const context = new Proxy(properties, {
+    get: (target, method: string) =>
+      method in target
+        ? target[method]
+        : (...args: unknown[]) => {
+            calls.push({ method, args });
+          },
+  });
+  const canvas = {
+    width: 0,
+    height: 0,
+    getContext: () => context,
+  } as unknown as RenderCanvas;
+  return { canvas, calls };
+};
+
+// the calls of a method made on a stubbed context
+const callsOf = (calls: ContextCall[], method: string) =>
+  calls.filter((call) => call.method === method);
+
+// a game with its first block spawned
+const spawned = gameActions.Tick(createInitialState(DefaultConfig, 1));
+
+describe("createCanvasRenderer", () => {
+  // the paths of the grid lines and patterns are only handed to the context
+  beforeAll(() => {
+    vi.stubGlobal(
+      "Path2D",
+      class {
+        constructor(readonly path?: string) {}
+      }
+    );
+  });
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const setUp = () => {
+    const board = createStubCanvas();
+    const preview = createStubCanvas();
+    const hold = createStubCanvas();
+    const renderer: Renderer = createCanvasRenderer({
+      board: board.canvas,
+      preview: preview.canvas,
+      hold: hold.canvas,
+    });
+    renderer.resize(DefaultConfig);
+    return { renderer, board, preview, hold };
+  };
+
+  it("implements every method of the renderer and sizes the canvases to the viewport", () => {
+    const { renderer, board, preview, hold } = setUp();
+    const renderMethods: ReadonlyArray<keyof Renderer> = [
+      "resize",
+      "renderBoard",
+      "renderPreview",
+      "renderHold",
+      "renderScore",
+      "renderOverlay",
+    ];
+    renderMethods.forEach((method) =>
+      expect(renderer[method]).toBeTypeOf("function")
+    );
+
+    const viewport = getViewport(DefaultConfig);
+    expect(board.canvas.width).toBe(viewport.CANVAS_WIDTH);
+    expect(board.canvas.height).toBe(viewport.CANVAS_HEIGHT);
+    expect(preview.canvas.height).toBe(viewport.PREVIEW_HEIGHT);
+    expect(hold.canvas.height).toBe(viewport.HOLD_HEIGHT);
+  });
+
+  it("draws the board, the next queue and the hold box, and only draws the board again when it changes", () => {
+    const { renderer, board, preview, hold } = setUp();
+    renderGame(renderer, spawned, Themes.Classic);
+    // the background and a cube for each cube of the block and its ghost
+    expect(callsOf(board.calls, "fillRect").length).toBeGreaterThan(8);
+    expect(callsOf(board.calls, "stroke").length).toBeGreaterThan(0);
+    expect(callsOf(preview.calls, "fillRect").length).toBeGreaterThan(
+      DefaultConfig.previewCount * 4
+    );
+    expect(callsOf(hold.calls, "fillRect")).toHaveLength(1);
+
+    board.calls.length = 0;
+    renderGame(renderer, spawned, Themes.Classic);
+    expect(board.calls).toEqual([]);
+    renderGame(renderer, gameActions.Left(spawned), Themes.Classic);
+    expect(callsOf(board.calls, "clearRect")).toHaveLength(1);
+  });
+
+  it("draws the pause cover and the game over box over the board", () => {
+    const { renderer, board } = setUp();
+    renderGame(renderer, { ...spawned, paused: true }, Themes.Classic);
+    expect(callsOf(board.calls, "fillText").map(({ args }) => args[0])).toEqual(
+      ["PAUSED"]
+    );
+
+    board.calls.length = 0;
+    const over: State = {
+      ...spawned,
+      gameEnd: true,
+      gameOverReason: "BLOCK OUT",
+    };
+    renderGame(renderer, over, Themes.Classic);
+    const box = getGameOverBox(DefaultConfig);
+    expect(callsOf(board.calls, "fillText").map(({ args }) => args)).toEqual([
+      ["Game Over", box.textX, box.textY],
+      ["BLOCK OUT", box.textX, box.reasonY],
+    ]);
+  });
+});
@@ -0,0 +1,219 @@
+import { of } from "rxjs";
+import { describe, expect, it } from "vitest";
+import {
+  createBoard,
+  getFilledCells,
+  getFullRows,
+  placeBlock,
+} from "../src/board";
+import { Constants, DefaultConfig } from "../src/constants";
+import { createGame } from "../src/engine";
+import { createInitialState, gameActions } from "../src/game";
+import { dropBlock } from "../src/generics";
+import { getCubes } from "../src/shapes";
+import { GameEvent, GameModeName, State } from "../src/types";
+
+// the ticks it takes for a delay of the config to pass
+const ticksOf = (delay: number): GameEvent[] =>
+  Array.from({ length: delay / Constants.TICK_RATE_MS }, () => "Tick");
+
+describe("createGame", () => {
+  it("starts with no current block and spawns one on the first tick", () => {
+    const game = createGame(DefaultConfig, 1);
+    expect(game.getState().currentBlock).toBeUndefined();
+    const state = game.step("Tick");
+    expect(state.currentBlock).toBeDefined();
+    expect(state.nextBlocks).toHaveLength(DefaultConfig.previewCount);
+    expect(game.getState()).toBe(state);
+  });
+
+  it("plays the same game for the same seed", () => {
+    const first = createGame(DefaultConfig, 7);
+    const second = createGame(DefaultConfig, 7);
+    const events: GameEvent[] = [
+      "Tick",
+      "HardDrop",
+      ...ticksOf(DefaultConfig.entryDelay),
+      "HardDrop",
+      "Tick",
+    ];
+    events.forEach((event) => {
+      first.step(event);
+      second.step(event);
+    });
+    expect(first.getState()).toEqual(second.getState());
+    // two blocks of 4 cubes are locked
+    expect(getFilledCells(first.getState().board)).toHaveLength(8);
+  });
+
+  it("steps the game for every event of a connected observable", () => {
+    const game = createGame(DefaultConfig, 3);
+    const states: State[] = [];
+    game.state$.subscribe((state) => states.push(state));
+    game.connect(of("Tick", "HardDrop", "Tick"));
+    // the initial state followed by one state per event
+    expect(states).toHaveLength(4);
+    expect(states[3]).toBe(game.getState());
+    expect(game.getState().score).toBeGreaterThan(0);
+  });
+
+  it("keeps full rows on the board for the line clear delay and spawns the next block after the entry delay", () => {
+    const game = createGame(DefaultConfig, 5);
+    const { currentBlock, board } = game.step("Tick");
+    // the bottom row is filled except for the cells the current block drops into
+    const landed = getCubes(dropBlock(currentBlock, board, DefaultConfig)!);
+    const bottom = DefaultConfig.height + DefaultConfig.bufferHeight - 1;
+    const rest = Array.from({ length: DefaultConfig.width }, (_, x) => ({
+      x,
+      y: bottom,
+    })).filter(
+      (cube) => !landed.some(({ x, y }) => x === cube.x && y === cube.y)
+    );
+    const locked = gameActions.HardDrop({
+      ...game.getState(),
+      board: placeBlock(board, rest, "I"),
+    });
+
+    expect(locked.currentBlock).toBeUndefined();
+    expect(locked.clearingRows).toEqual([bottom]);
+    expect(locked.lines).toBe(1);
+    expect(locked.lockFlash?.cubes).toEqual(landed);
+    const animated = ticksOf(DefaultConfig.lineClearDelay)
+      .slice(1)
+      .reduce((s, event) => gameActions[event](s), locked);
+    expect(getFullRows(animated.board, DefaultConfig)).toEqual([bottom]);
+
+    const cleared = gameActions.Tick(animated);
+    expect(cleared.clearingRows).toHaveLength(0);
+    // only the cubes of the block above the cleared row are left, shifted down
+    expect(getFilledCells(cleared.board)).toHaveLength(
+      landed.filter(({ y }) => y !== bottom).length
+    );
+    expect(cleared.currentBlock).toBeUndefined();
+    const spawned = ticksOf(DefaultConfig.entryDelay).reduce(
+      (s, event) => gameActions[event](s),
+      cleared
+    );
+    expect(spawned.currentBlock).toBeDefined();
+  });
+
+  it("drops the block softDropFactor times faster while soft dropping", () => {
+    const game = createGame(DefaultConfig, 9);
+    const spawned = game.step("Tick");
+    game.step("SoftDropStart");
+    // at level 1 a block falls a row per second, 20 times faster is a row every 50ms
+    const dropped = ticksOf(200).reduce(
+      (_, event) => game.step(event),
+      spawned
+    );
+    const rows =
+      dropped.currentBlock!.position.y - spawned.currentBlock!.position.y;
+
+    // one row right away and four in 200ms, each worth a soft drop point
+    expect(rows).toBe(5);
+    expect(dropped.score).toBe(5 * DefaultConfig.scoring.SOFT_DROP);
+    const released = game.step("SoftDropEnd");
+    expect(released.softDropping).toBe(false);
+  });
+
+  it("ignores ticks and moves while paused and carries on where it stopped when resumed", () => {
+    const game = createGame(DefaultConfig, 3);
+    const spawned = game.step("Tick");
+    const paused = game.step("Pause");
+    ["Left", "HardDrop", "Hold", ...ticksOf(2000)].forEach((event) =>
+      expect(game.step(event as GameEvent)).toBe(paused)
+    );
+    // pausing again does not resume, and restarting starts a running game
+    expect(game.step("Pause")).toBe(paused);
+    const resumed = game.step("TogglePause");
+    expect(resumed).toEqual(spawned);
+    expect(game.step("Pause").paused).toBe(true);
+    expect(game.step("Restart").paused).toBe(false);
+  });
+});
+
+describe("game modes", () => {
+  const start = (mode: GameModeName): State =>
+    gameActions.Tick(createInitialState({ ...DefaultConfig, mode }, 1));
+
+  it("ends a sprint on the results screen once 40 lines are cleared, until the player restarts", () => {
+    const ended = gameActions.Tick({ ...start("Sprint"), lines: 40 });
+    expect(ended.gameEnd).toBe(true);
+    expect(ended.gameOverReason).toBe("COMPLETE");
+    expect(ended.lastResult).toMatchObject({
+      mode: "Sprint",
+      complete: true,
+      lines: 40,
+      duration: 2 * Constants.TICK_RATE_MS,
+    });
+    expect(gameActions.Tick(ended)).toBe(ended);
+    expect(gameActions.Restart(ended).gameEnd).toBe(false);
+  });
+
+  it("ends an ultra game when its 2 minutes are up", () => {
+    const ended = gameActions.Tick({
+      ...start("Ultra"),
+      elapsed: 120000 - Constants.TICK_RATE_MS,
+    });
+    expect(ended.gameOverReason).toBe("TIME UP");
+    expect(ended.lastResult?.complete).toBe(true);
+  });
+
+  it("starts a dig with garbage rows holed by the seed and completes it once they are cleared", () => {
+    const dig = start("Dig");
+    const garbage = getFilledCells(dig.board).filter(
+      ({ type }) => type === "Garbage"
+    );
+    // 10 rows with one hole each, the same for the same seed
+    expect(garbage).toHaveLength(10 * (DefaultConfig.width - 1));
+    expect(start("Dig").board).toEqual(dig.board);
+    expect(
+      createInitialState({ ...DefaultConfig, mode: "Dig" }, 2).board
+    ).not.toEqual(dig.board);
+
+    const cleared = gameActions.Tick({
+      ...dig,
+      board: createBoard(DefaultConfig),
+    });
+    expect(cleared.gameOverReason).toBe("COMPLETE");
+  });
+
+  it("pushes a garbage row up under the stack and the falling block every 5 seconds in survival", () => {
+    const survival = start("Survival");
+    const pushed = gameActions.Tick({ ...survival, garbageTimer: 5000 - 20 });
+    expect(pushed.board.rows[pushed.board.rows.length - 1]).not.toBe(0);
+    expect(pushed.garbageTimer).toBe(0);
+    // the falling block had room above it, so it stays where it was
+    expect(pushed.currentBlock).toEqual(survival.currentBlock);
+
+    // a block resting on the floor is pushed up with the stack
+    const landed = {
+      ...survival,
+      currentBlock: dropBlock(
+        survival.currentBlock,
+        survival.board,
+        DefaultConfig
+      ),
+      garbageTimer: 5000 - 20,
+    };
+    expect(gameActions.Tick(landed).currentBlock!.position.y).toBe(
+      landed.currentBlock!.position.y - 1
+    );
+  });
+
+  it("empties the board instead of topping out in zen and never speeds up", () => {
+    // hard dropping every block would top out long before 5000 events in any other mode
+    const events = Array.from({ length: 5000 }, (_, index) =>
+      index % 2 === 0 ? "HardDrop" : "Tick"
+    ) as GameEvent[];
+    const states = events.reduce(
+      (played: State[], event) => [
+        ...played,
+        gameActions[event](played[played.length - 1]),
+      ],
+      [start("Zen")]
+    );
+    expect(states.some((state) => state.gameEnd)).toBe(false);
+    expect(states[states.length - 1].level).toBe(1);
+  });
+});
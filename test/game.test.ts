@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import { createBoard, getFilledCells, placeBlock } from "../src/board";
+import { BoardPresets, Constants, DefaultConfig } from "../src/constants";
+import { createInitialState, gameActions } from "../src/game";
+import { dropBlock, getGridHeight } from "../src/generics";
+import { createSpawnPiece, getCubes } from "../src/shapes";
+import { GameEvent, Piece, State } from "../src/types";
+
+// applies the game events to the state in order
+const play = (state: State, events: ReadonlyArray<GameEvent>): State =>
+  events.reduce((s, event) => gameActions[event](s), state);
+
+// the ticks it takes for a delay of the config to pass
+const ticksOf = (delay: number): GameEvent[] =>
+  Array.from({ length: delay / Constants.TICK_RATE_MS }, () => "Tick");
+
+// a piece one row below where it is, where a new block drops to as soon as it spawns
+const oneRowDown = (piece: Piece): Piece => ({
+  ...piece,
+  position: { ...piece.position, y: piece.position.y + 1 },
+});
+
+// a game with its first block spawned
+const spawned = gameActions.Tick(createInitialState(DefaultConfig, 1));
+
+// the first block resting on the floor
+const landed: State = {
+  ...spawned,
+  currentBlock: dropBlock(spawned.currentBlock, spawned.board, DefaultConfig),
+};
+
+describe("game", () => {
+  it("hard drops the block where the ghost is and locks it at once", () => {
+    const ghost = dropBlock(
+      spawned.currentBlock,
+      spawned.board,
+      DefaultConfig
+    )!;
+    const dropped = gameActions.HardDrop(spawned);
+    expect(dropped.currentBlock).toBeUndefined();
+    expect(getFilledCells(dropped.board).map(({ x, y }) => ({ x, y }))).toEqual(
+      getCubes(ghost)
+    );
+    const rows = ghost.position.y - spawned.currentBlock!.position.y;
+    expect(dropped.score).toBe(rows * DefaultConfig.scoring.HARD_DROP);
+  });
+
+  it("locks a landed block after the lock delay, which moving it resets up to the limit", () => {
+    const lockTicks = ticksOf(DefaultConfig.lockDelay);
+    expect(play(landed, lockTicks.slice(1)).currentBlock).toBeDefined();
+    expect(play(landed, lockTicks).currentBlock).toBeUndefined();
+
+    // every move of a landed block starts the lock delay over, until the limit of resets is used up
+    const shuffled = Array.from(
+      { length: DefaultConfig.lockResetLimit },
+      (_, index): GameEvent[] => ["Tick", index % 2 === 0 ? "Left" : "Right"]
+    ).flat();
+    const reset = play(landed, shuffled);
+    expect(reset.lockTimer).toBe(0);
+    expect(reset.lockResets).toBe(DefaultConfig.lockResetLimit);
+    const unreset = play(reset, ["Tick", "Left"]);
+    expect(unreset.lockTimer).toBe(Constants.TICK_RATE_MS);
+    expect(play(unreset, lockTicks.slice(2)).currentBlock).toBeDefined();
+    expect(play(unreset, lockTicks.slice(1)).currentBlock).toBeUndefined();
+  });
+
+  it("holds a block once until the next one locks and swaps the held shape back in where a new block spawns", () => {
+    const moved = play(spawned, ["Left", "RotateClockwise"]);
+    const held = gameActions.Hold(moved);
+    expect(held.holdBlock).toBe(spawned.currentBlock!.shape);
+    expect(held.currentBlock).toEqual(oneRowDown(spawned.nextBlocks[0]));
+    expect(held.canHold).toBe(false);
+    expect(gameActions.Hold(held)).toBe(held);
+
+    const next = play(held, ["HardDrop", ...ticksOf(DefaultConfig.entryDelay)]);
+    expect(next.canHold).toBe(true);
+    const swapped = gameActions.Hold(next);
+    expect(swapped.currentBlock).toEqual(spawned.currentBlock);
+    expect(swapped.holdBlock).toBe(next.currentBlock!.shape);
+  });
+
+  it("fills the next queue to the preview count and deals its first block next", () => {
+    const config = { ...DefaultConfig, previewCount: 5 };
+    const first = gameActions.Tick(createInitialState(config, 1));
+    expect(first.nextBlocks).toHaveLength(5);
+
+    const second = play(first, ["HardDrop", ...ticksOf(config.entryDelay)]);
+    expect(second.currentBlock).toEqual(oneRowDown(first.nextBlocks[0]));
+    expect(second.nextBlocks).toHaveLength(5);
+    expect(second.nextBlocks.slice(0, 4)).toEqual(first.nextBlocks.slice(1));
+  });
+
+  it("drops a new block into the visible grid as soon as it spawns", () => {
+    const visible = (piece: Piece | undefined) =>
+      getCubes(piece!).some(({ y }) => y >= DefaultConfig.bufferHeight);
+    expect(visible(spawned.currentBlock)).toBe(true);
+    expect(spawned.currentBlock).toEqual(
+      oneRowDown(createSpawnPiece(spawned.currentBlock!.shape, DefaultConfig))
+    );
+    expect(visible(gameActions.Hold(spawned).currentBlock)).toBe(true);
+  });
+
+  it("tops out on a lock out or a block out, but not on a block that locks partly in the visible grid", () => {
+    // a row right below the buffer zone, with a hole away from the block so that it is not cleared
+    const rowBelow = (y: number) =>
+      Array.from({ length: DefaultConfig.width - 1 }, (_, x) => ({
+        x: x + 1,
+        y,
+      }));
+    // the row the block drops into when it spawns is taken, so it stays in the buffer zone
+    const spawnOnto = (y: number) =>
+      gameActions.Tick({
+        ...createInitialState(DefaultConfig, 1),
+        board: placeBlock(createBoard(DefaultConfig), rowBelow(y), "I"),
+      });
+    const stuck = spawnOnto(DefaultConfig.bufferHeight);
+    expect(stuck.currentBlock).toEqual(
+      createSpawnPiece(stuck.currentBlock!.shape, DefaultConfig)
+    );
+    const lockedOut = gameActions.HardDrop(stuck);
+    expect(lockedOut.gameEnd).toBe(true);
+    expect(lockedOut.gameOverReason).toBe("LOCK OUT");
+
+    const partly = gameActions.HardDrop(
+      spawnOnto(DefaultConfig.bufferHeight + 1)
+    );
+    expect(partly.gameEnd).toBe(false);
+
+    // the cells every shape spawns into are taken
+    const dropped = gameActions.HardDrop(spawned);
+    const blockedOut = play(
+      {
+        ...dropped,
+        board: placeBlock(
+          dropped.board,
+          [3, 4, 5].map((x) => ({ x, y: DefaultConfig.bufferHeight - 1 })),
+          "I"
+        ),
+      },
+      ticksOf(DefaultConfig.entryDelay)
+    );
+    expect(blockedOut.gameEnd).toBe(true);
+    expect(blockedOut.gameOverReason).toBe("BLOCK OUT");
+  });
+
+  it("plays on the board of a non-default config, from its walls and floor to its full rows", () => {
+    const config = { ...DefaultConfig, ...BoardPresets.tiny };
+    const first = gameActions.Tick(createInitialState(config, 5));
+    const { currentBlock, board } = first;
+
+    // moving right more times than the board is wide stops at its wall
+    const right = Array.from({ length: config.width }).reduce<State>(
+      (s) => gameActions.Right(s),
+      first
+    );
+    expect(Math.max(...getCubes(right.currentBlock!).map(({ x }) => x))).toBe(
+      config.width - 1
+    );
+
+    const landed = getCubes(dropBlock(currentBlock, board, config)!);
+    const bottom = getGridHeight(config) - 1;
+    expect(Math.max(...landed.map(({ y }) => y))).toBe(bottom);
+    const rest = Array.from({ length: config.width }, (_, x) => ({
+      x,
+      y: bottom,
+    })).filter(
+      (cube) => !landed.some(({ x, y }) => x === cube.x && y === cube.y)
+    );
+    const locked = gameActions.HardDrop({
+      ...first,
+      board: placeBlock(board, rest, "I"),
+    });
+    expect(locked.lines).toBe(1);
+  });
+});
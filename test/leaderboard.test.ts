@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { DefaultConfig } from "../src/constants";
+import { createGame } from "../src/engine";
+import {
+  addLeaderboardEntries,
+  createMemoryLeaderboardStorage,
+  isLeaderboardResult,
+  parseHighScores,
+  parseLeaderboard,
+  serializeLeaderboard,
+} from "../src/leaderboard";
+import { LeaderboardEntry, State } from "../src/types";
+
+const entry = (name: string, score: number): LeaderboardEntry => ({
+  name,
+  score,
+  lines: score / 100,
+  level: 1,
+  duration: 60000,
+  mode: "Marathon",
+  date: `2024-01-0${(score / 100) % 10}T00:00:00.000Z`,
+});
+
+describe("leaderboard", () => {
+  it("keeps the best games with the highest score first", () => {
+    const leaderboard = addLeaderboardEntries(
+      [],
+      [entry("a", 300), entry("b", 100), entry("c", 500), entry("d", 300)],
+      3
+    );
+    expect(leaderboard.map(({ name }) => name)).toEqual(["c", "a", "d"]);
+    expect(isLeaderboardResult(leaderboard, entry("e", 300), 3)).toBe(false);
+    expect(isLeaderboardResult(leaderboard, entry("e", 400), 3)).toBe(true);
+    // importing the same games again does not add them twice
+    expect(addLeaderboardEntries(leaderboard, leaderboard, 3)).toEqual(
+      leaderboard
+    );
+  });
+
+  it("keeps a leaderboard per mode and ranks sprints by their time", () => {
+    const sprint = (name: string, duration: number): LeaderboardEntry => ({
+      ...entry(name, 1000),
+      mode: "Sprint",
+      duration,
+    });
+    const leaderboard = addLeaderboardEntries(
+      [entry("a", 300)],
+      [sprint("b", 90000), sprint("c", 60000), entry("d", 500)],
+      2
+    );
+    expect(leaderboard.map(({ name }) => name)).toEqual(["d", "a", "c", "b"]);
+    expect(
+      isLeaderboardResult(
+        leaderboard,
+        { ...sprint("e", 50000), complete: false },
+        2
+      )
+    ).toBe(false);
+    expect(
+      isLeaderboardResult(
+        leaderboard,
+        { ...sprint("e", 70000), complete: true },
+        2
+      )
+    ).toBe(true);
+  });
+
+  it("exports and imports the leaderboard and rejects files that are not one", () => {
+    const storage = createMemoryLeaderboardStorage();
+    storage.save([entry("a", 200), entry("b", 100)]);
+    const json = serializeLeaderboard(storage.load());
+
+    expect(parseLeaderboard(json)).toEqual(storage.load());
+    expect(() => parseLeaderboard('{"version": 2}')).toThrow(
+      "Not a leaderboard file"
+    );
+    expect(() => parseLeaderboard('[{"name": "a"}]')).toThrow(
+      "Not a leaderboard file"
+    );
+  });
+
+  it("keeps the result of a game that ended but not of a game restarted by the player", () => {
+    const game = createGame(DefaultConfig, 5);
+    game.step("Tick");
+    expect(game.step("Restart").lastResult).toBeUndefined();
+
+    // hard dropping every block stacks them up until a block cannot spawn
+    const ended = Array.from({ length: 5000 }).reduce(
+      (state: State) =>
+        state.gameEnd
+          ? state
+          : game.step(state.currentBlock ? "HardDrop" : "Tick"),
+      game.getState()
+    );
+    expect(ended.gameEnd).toBe(true);
+    expect(ended.lastResult!.score).toBeGreaterThan(0);
+    expect(ended.lastResult!.duration).toBeGreaterThan(0);
+  });
+
+  it("starts the high scores over when the ones kept cannot be read", () => {
+    expect(parseHighScores(null)).toEqual({});
+    expect(parseHighScores("not json")).toEqual({});
+    expect(parseHighScores("[1]")).toEqual({});
+    expect(
+      parseHighScores(
+        '{"Marathon":300,"Sprint":"900","Unknown":100,"Ultra":-1}'
+      )
+    ).toEqual({ Marathon: 300 });
+  });
+});
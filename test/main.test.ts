@@ -1,5 +1,20 @@
+// @vitest-environment jsdom
+import { Subject } from "rxjs";
 import { assert, describe, expect, it } from "vitest";
-import { main } from "../src/main";
+import { isThemeName, Themes } from "../src/constants";
+import { createHighScore$, createTheme$, main } from "../src/main";
+import { GameResult, Theme } from "../src/types";
+
+// a theme select with an option for every theme
+const createThemeSelect = () => {
+  const select = document.createElement("select");
+  Object.keys(Themes).forEach((name) => {
+    const option = document.createElement("option");
+    option.value = name;
+    select.appendChild(option);
+  });
+  return select;
+};
 
 describe("main", () => {
   it("is defined", () => {
@@ -9,3 +24,68 @@ describe("main", () => {
     assert.isFunction(main);
   });
 });
+
+describe("theme", () => {
+  it("only takes the names of the themes", () => {
+    Object.keys(Themes).forEach((name) => expect(isThemeName(name)).toBe(true));
+    ["classic", "", "toString", "constructor"].forEach((name) =>
+      expect(isThemeName(name)).toBe(false)
+    );
+    expect(isThemeName(null)).toBe(false);
+  });
+
+  it("remembers the theme picked for the next visit and falls back to Classic for an unknown one", () => {
+    localStorage.setItem("theme", "Sepia");
+    const themes: Theme[] = [];
+    const select = createThemeSelect();
+    createTheme$(select).subscribe((theme) => themes.push(theme));
+    expect(select.value).toBe("Classic");
+
+    select.value = "Monochrome";
+    select.dispatchEvent(new Event("change"));
+    expect(themes).toEqual([Themes.Classic, Themes.Monochrome]);
+    expect(localStorage.getItem("theme")).toBe("Monochrome");
+
+    // the next visit starts with the theme picked
+    const nextVisit: Theme[] = [];
+    const nextSelect = createThemeSelect();
+    createTheme$(nextSelect).subscribe((theme) => nextVisit.push(theme));
+    expect(nextSelect.value).toBe("Monochrome");
+    expect(nextVisit).toEqual([Themes.Monochrome]);
+    localStorage.clear();
+  });
+});
+
+describe("high score", () => {
+  const result = (score: number): GameResult => ({
+    mode: "Marathon",
+    complete: false,
+    score,
+    lines: 0,
+    level: 1,
+    duration: 60000,
+  });
+
+  it("remembers the best score of every game that ended for the next visit, on the leaderboard or not", () => {
+    const result$ = new Subject<GameResult>();
+    const highScores: number[] = [];
+    createHighScore$(result$, "Marathon").subscribe((highScore) =>
+      highScores.push(highScore)
+    );
+    result$.next(result(300));
+    result$.next(result(100));
+    result$.next({ ...result(900), mode: "Sprint" });
+    expect(highScores).toEqual([0, 300]);
+
+    // the next visit starts with the high score of its mode
+    const nextVisit: number[] = [];
+    createHighScore$(new Subject<GameResult>(), "Marathon").subscribe(
+      (highScore) => nextVisit.push(highScore)
+    );
+    createHighScore$(new Subject<GameResult>(), "Sprint").subscribe(
+      (highScore) => nextVisit.push(highScore)
+    );
+    expect(nextVisit).toEqual([300, 900]);
+    localStorage.clear();
+  });
+});
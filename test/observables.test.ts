@@ -0,0 +1,215 @@
+import { TestScheduler } from "rxjs/testing";
+import { describe, expect, it } from "vitest";
+import { DefaultInputSettings } from "../src/constants";
+import {
+  createGamepadAction$,
+  createPausableTick$,
+  createTouchAction$,
+  createUserAction$,
+  readGamepadSnapshot,
+} from "../src/observables";
+import { GamepadSnapshot, TouchPoint } from "../src/types";
+
+// a key event of a physical key, repeated when the operating system repeats a held key
+const key = (code: string, repeat = false) =>
+  ({ code, repeat } as KeyboardEvent);
+
+// a snapshot of a gamepad with the given buttons of the standard mapping pressed
+const buttons = (...pressed: number[]): GamepadSnapshot =>
+  Array.from({ length: 17 }, (_, index) => pressed.includes(index));
+
+const point = (x: number, y: number, time: number): TouchPoint => ({
+  x,
+  y,
+  time,
+});
+
+const createScheduler = () =>
+  new TestScheduler((actual, expected) => expect(actual).toEqual(expected));
+
+describe("createUserAction$", () => {
+  it("moves once when a key is pressed and repeats after the delayed auto shift until it is released", () => {
+    createScheduler().run(({ cold, expectObservable }) => {
+      const keyDown$ = cold("a", { a: key("KeyA") });
+      const keyUp$ = cold("300ms a", { a: key("KeyA") });
+      // DAS is 170ms and ARR 50ms
+      expectObservable(
+        createUserAction$(keyDown$, keyUp$, DefaultInputSettings)
+      ).toBe("L 169ms L 49ms L 49ms L", { L: "Left" });
+    });
+  });
+
+  it("ignores the key repeat of the operating system", () => {
+    createScheduler().run(({ cold, expectObservable }) => {
+      const keyDown$ = cold("a 29ms b 29ms b", {
+        a: key("KeyQ"),
+        b: key("KeyQ", true),
+      });
+      expectObservable(
+        createUserAction$(keyDown$, cold("-"), DefaultInputSettings)
+      ).toBe("r", { r: "RotateAntiClockwise" });
+    });
+  });
+
+  it("moves the block to the wall at once with an auto repeat rate of 0", () => {
+    createScheduler().run(({ cold, expectObservable }) => {
+      const keyDown$ = cold("a", { a: key("ArrowRight") });
+      expectObservable(
+        createUserAction$(keyDown$, cold("-"), {
+          ...DefaultInputSettings,
+          das: 100,
+          arr: 0,
+        })
+      ).toBe(`R 99ms (${"R".repeat(30)})`, { R: "Right" });
+    });
+  });
+
+  it("stops moving when the other direction is pressed", () => {
+    createScheduler().run(({ cold, expectObservable }) => {
+      const keyDown$ = cold("a 199ms b", {
+        a: key("KeyA"),
+        b: key("KeyD"),
+      });
+      // A is released first, so that releasing D does not move the block left again
+      const keyUp$ = cold("250ms a 49ms b", { a: key("KeyA"), b: key("KeyD") });
+      expectObservable(
+        createUserAction$(keyDown$, keyUp$, DefaultInputSettings)
+      ).toBe("L 169ms L 29ms R", { L: "Left", R: "Right" });
+    });
+  });
+
+  it("moves in the held direction again when the other direction is released", () => {
+    createScheduler().run(({ cold, expectObservable }) => {
+      const keyDown$ = cold("a 199ms b", {
+        a: key("KeyA"),
+        b: key("KeyD"),
+      });
+      const keyUp$ = cold("300ms b 199ms a", {
+        a: key("KeyA"),
+        b: key("KeyD"),
+      });
+      // left moves at once when right is released, and repeats after the delayed auto shift until it is released too
+      expectObservable(
+        createUserAction$(keyDown$, keyUp$, DefaultInputSettings)
+      ).toBe("L 169ms L 29ms R 99ms L 169ms L", { L: "Left", R: "Right" });
+    });
+  });
+
+  it("starts soft dropping when a soft drop key is pressed and stops when it is released", () => {
+    createScheduler().run(({ cold, expectObservable }) => {
+      const keyDown$ = cold("a 99ms b", {
+        a: key("ArrowDown"),
+        b: key("KeyS"),
+      });
+      const keyUp$ = cold("50ms a 99ms b", {
+        a: key("ArrowDown"),
+        b: key("KeyS"),
+      });
+      expectObservable(
+        createUserAction$(keyDown$, keyUp$, DefaultInputSettings)
+      ).toBe("s 49ms e 49ms s 49ms e", {
+        s: "SoftDropStart",
+        e: "SoftDropEnd",
+      });
+    });
+  });
+
+  it("keeps repeating and soft dropping until the last of the keys bound to the action is released", () => {
+    createScheduler().run(({ cold, expectObservable }) => {
+      const keyDown$ = cold("a 9ms b 9ms c 9ms d", {
+        a: key("KeyA"),
+        b: key("ArrowLeft"),
+        c: key("KeyS"),
+        d: key("ArrowDown"),
+      });
+      // A and S are released first, while the arrows bound to the same actions are still held
+      const keyUp$ = cold("100ms a 9ms c 189ms b 9ms d", {
+        a: key("KeyA"),
+        b: key("ArrowLeft"),
+        c: key("KeyS"),
+        d: key("ArrowDown"),
+      });
+      expectObservable(
+        createUserAction$(keyDown$, keyUp$, DefaultInputSettings)
+      ).toBe("L 19ms s 149ms L 49ms L 49ms L 39ms e", {
+        L: "Left",
+        s: "SoftDropStart",
+        e: "SoftDropEnd",
+      });
+    });
+  });
+});
+
+describe("createGamepadAction$", () => {
+  it("acts when a button is pressed and repeats a held d-pad direction", () => {
+    createScheduler().run(({ cold, expectObservable }) => {
+      // polled every 20ms: A pressed, then left held for 300ms
+      const snapshot$ = cold("a 19ms b 19ms c 279ms d", {
+        a: buttons(0),
+        b: buttons(),
+        c: buttons(14),
+        d: buttons(),
+      });
+      expectObservable(createGamepadAction$(snapshot$)).toBe(
+        "r 39ms L 169ms L 49ms L 49ms L",
+        { r: "RotateClockwise", L: "Left" }
+      );
+    });
+  });
+
+  it("reads the buttons of the first connected gamepad", () => {
+    const gamepad = {
+      connected: true,
+      buttons: [{ pressed: false }, { pressed: true }],
+    } as unknown as Gamepad;
+    expect(readGamepadSnapshot([null, gamepad])).toEqual([false, true]);
+    expect(readGamepadSnapshot([null])).toEqual([]);
+  });
+});
+
+describe("createTouchAction$", () => {
+  it("moves the block a cell for every step swiped", () => {
+    createScheduler().run(({ cold, hot, expectObservable }) => {
+      const start$ = hot("a", { a: point(100, 100, 0) });
+      const move$ = hot("-a-b----c", {
+        a: point(80, 100, 100),
+        b: point(35, 105, 200),
+        c: point(40, 140, 300),
+      });
+      const end$ = hot("---------a", { a: point(40, 140, 400) });
+      expectObservable(createTouchAction$(start$, move$, end$)).toBe(
+        "---(LL)-D",
+        { L: "Left", D: "Down" }
+      );
+    });
+  });
+
+  it("rotates on a tap and hard drops on a long quick swipe down", () => {
+    createScheduler().run(({ cold, hot, expectObservable }) => {
+      const start$ = hot("a-b", {
+        a: point(100, 100, 0),
+        b: point(100, 100, 1000),
+      });
+      const end$ = hot("-a-b", {
+        a: point(103, 102, 150),
+        b: point(105, 230, 1200),
+      });
+      expectObservable(createTouchAction$(start$, cold("-"), end$)).toBe(
+        "-r-h",
+        { r: "RotateClockwise", h: "HardDrop" }
+      );
+    });
+  });
+});
+
+describe("createPausableTick$", () => {
+  it("stops ticking while paused and starts a new period when resumed", () => {
+    createScheduler().run(({ hot, expectObservable }) => {
+      const paused$ = hot("f 49ms t 99ms t 9ms f", { f: false, t: true });
+      expectObservable(createPausableTick$(paused$), "^ 200ms !").toBe(
+        "20ms a 19ms a 139ms a 19ms a",
+        { a: "Tick" }
+      );
+    });
+  });
+});
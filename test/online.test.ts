@@ -0,0 +1,122 @@
+import { firstValueFrom, Subject } from "rxjs";
+import { filter, shareReplay } from "rxjs/operators";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { WebSocket } from "ws";
+import { DefaultConfig } from "../src/constants";
+import { createInitialState } from "../src/game";
+import { createOnline$, createOnlineConnection } from "../src/observables";
+import { createOnlineState, stepOnline } from "../src/online";
+import { createRelayServer } from "../src/relayServer";
+import {
+  ClientMessage,
+  GameEvent,
+  OnlineState,
+  RelayServer,
+} from "../src/types";
+
+/**
+ * Connects a headless client to the relay server, with the commands and the game events of its player fed in by the test.
+ * @param port - The port of the relay server.
+ * @returns The client.
+ */
+const connectClient = (port: number) => {
+  const connection = createOnlineConnection(
+    new WebSocket(`ws://localhost:${port}`) as unknown as globalThis.WebSocket
+  );
+  const command$ = new Subject<ClientMessage>();
+  const gameEvent$ = new Subject<GameEvent>();
+  const online$ = createOnline$(
+    connection,
+    DefaultConfig,
+    command$,
+    gameEvent$
+  ).pipe(shareReplay(1));
+  online$.subscribe();
+  return {
+    command: (message: ClientMessage) => command$.next(message),
+    step: (event: GameEvent) => gameEvent$.next(event),
+    until: (predicate: (online: OnlineState) => boolean) =>
+      firstValueFrom(online$.pipe(filter(predicate))),
+    close: () => connection.close(),
+  };
+};
+
+describe("online versus", () => {
+  let server: RelayServer;
+  beforeEach(async () => {
+    server = await createRelayServer(0, 0);
+  });
+  afterEach(() => server.close());
+
+  it("plays a match between two headless clients through the relay server", async () => {
+    const host = connectClient(server.port);
+    const guest = connectClient(server.port);
+
+    host.command({ type: "Create" });
+    const { code } = await host.until((s) => s.phase === "Room");
+    guest.command({ type: "Join", code: code!.toLowerCase() });
+    await host.until((s) => s.opponentJoined);
+    await guest.until((s) => s.phase === "Room");
+
+    host.command({ type: "Ready" });
+    guest.command({ type: "Ready" });
+    const [hostCountdown, guestCountdown] = await Promise.all([
+      host.until((s) => s.phase === "Countdown"),
+      guest.until((s) => s.phase === "Countdown"),
+    ]);
+    expect(hostCountdown.seed).toBe(guestCountdown.seed);
+
+    // the countdown of 0ms is over on the first tick and the first block spawns on the next one
+    [host, guest].forEach((client) => {
+      client.step("Tick");
+      client.step("Tick");
+    });
+    const [hostGame, guestGame] = await Promise.all(
+      [host, guest].map((client) =>
+        client.until((s) => s.game?.currentBlock !== undefined)
+      )
+    );
+    expect(hostGame.game!.currentBlock).toEqual(guestGame.game!.currentBlock);
+    expect(hostGame.game!.nextBlocks).toEqual(guestGame.game!.nextBlocks);
+
+    // the guest hard drops every block until the stack reaches the top, the host sees the board and wins
+    const stacked = Array.from({ length: 500 }, (_, index) =>
+      index % 6 === 0 ? "HardDrop" : "Tick"
+    );
+    stacked.forEach((event) => guest.step(event as GameEvent));
+    const over = await host.until((s) => s.phase === "Over");
+    expect(over.winner).toBe(0);
+    expect(over.opponent!.gameEnd).toBe(true);
+
+    // the host is told when the guest leaves
+    guest.close();
+    const left = await host.until((s) => s.error !== undefined);
+    expect(left.phase).toBe("Lobby");
+    host.close();
+  });
+
+  it("takes in the garbage the opponent sent and sends its own", () => {
+    const lobby = createOnlineState(DefaultConfig);
+    const playing: OnlineState = {
+      ...lobby,
+      phase: "Playing",
+      game: createInitialState(lobby.config, 1),
+    };
+
+    const attacked = stepOnline(playing, {
+      type: "Server",
+      message: { type: "Attack", rows: 3 },
+    });
+    expect(attacked.game!.pendingGarbage).toBe(3);
+
+    const attacking = stepOnline(
+      { ...playing, game: { ...playing.game!, sentGarbage: 2 } },
+      { type: "Game", event: "Tick" }
+    );
+    expect(attacking.outbox).toContainEqual({ type: "Attack", rows: 2 });
+    expect(attacking.game!.sentGarbage).toBe(0);
+
+    // an online match cannot be paused by one player
+    expect(stepOnline(playing, { type: "Game", event: "Pause" })).toBe(playing);
+  });
+});
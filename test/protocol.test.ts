@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { DefaultConfig } from "../src/constants";
+import { createInitialState, gameActions } from "../src/game";
+import { createOnlineState, getSnapshot, stepOnline } from "../src/online";
+import {
+  parseClientMessage,
+  parseServerMessage,
+  serializeMessage,
+} from "../src/protocol";
+import { OnlineState } from "../src/types";
+
+// the snapshot of a game with its first block spawned, as the opponent sends it
+const snapshot = getSnapshot(
+  gameActions.Tick(createInitialState(DefaultConfig, 1))
+);
+
+// the JSON text of a snapshot message with some fields of the snapshot changed
+const snapshotMessage = (changes: Record<string, unknown>) =>
+  JSON.stringify({ type: "Snapshot", snapshot: { ...snapshot, ...changes } });
+
+describe("protocol", () => {
+  it("reads back the snapshot of a board it sent", () => {
+    const json = serializeMessage({ type: "Snapshot", snapshot });
+    expect(parseServerMessage(json)).toEqual(
+      JSON.parse(JSON.stringify({ type: "Snapshot", snapshot }))
+    );
+    expect(parseClientMessage(json).type).toBe("Snapshot");
+  });
+
+  it("rejects malformed snapshots before they reach the view", () => {
+    const { board, currentBlock } = snapshot;
+    [
+      { board: undefined },
+      { board: { rows: board.rows } },
+      { board: { ...board, cells: board.cells.slice(1) } },
+      { board: { ...board, cells: [["Q"], ...board.cells.slice(1)] } },
+      { currentBlock: { ...currentBlock, shape: "Q" } },
+      { currentBlock: { ...currentBlock, orientation: "X" } },
+      { currentBlock: { ...currentBlock, position: { x: "3" } } },
+      { nextBlocks: [null] },
+      { score: -1 },
+      { gameEnd: "no" },
+      { lastClear: { type: "Single" } },
+    ].forEach((changes) =>
+      expect(() => parseServerMessage(snapshotMessage(changes))).toThrow(
+        "Not a message of the online protocol"
+      )
+    );
+  });
+
+  it("drops a snapshot of a board of another size than the board of the match", () => {
+    const online: OnlineState = createOnlineState(DefaultConfig);
+    const narrow = getSnapshot(
+      gameActions.Tick(createInitialState({ ...DefaultConfig, width: 6 }, 1))
+    );
+    expect(
+      stepOnline(online, {
+        type: "Server",
+        message: { type: "Snapshot", snapshot: narrow },
+      })
+    ).toBe(online);
+    expect(
+      stepOnline(online, {
+        type: "Server",
+        message: { type: "Snapshot", snapshot },
+      }).opponent
+    ).toBe(snapshot);
+  });
+});
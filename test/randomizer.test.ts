@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  createRandomizer,
+  isRandomizerType,
+  nextShape,
+} from "../src/randomizer";
+import { SHAPE_TYPES } from "../src/shapes";
+import { RandomizerState, RandomizerType, ShapeType } from "../src/types";
+
+/**
+ * Deals shapes with a piece sequence strategy, the randomizer state and the seed threaded from one shape to the next.
+ * @param type - The piece sequence strategy.
+ * @param seed - The seed.
+ * @param count - The number of shapes.
+ * @returns The shapes, in the order they are dealt.
+ */
+const dealShapes = (
+  type: RandomizerType,
+  seed: number,
+  count: number
+): ShapeType[] =>
+  Array.from({ length: count }).reduce<{
+    shapes: ShapeType[];
+    randomizer: RandomizerState;
+    seed: number;
+  }>(
+    (dealt) => {
+      const { shape, randomizer, seed } = nextShape(
+        dealt.randomizer,
+        dealt.seed
+      );
+      return { shapes: [...dealt.shapes, shape], randomizer, seed };
+    },
+    { shapes: [], randomizer: createRandomizer(type), seed }
+  ).shapes;
+
+const seeds = Array.from({ length: 50 }, (_, index) => index + 1);
+
+describe("randomizers", () => {
+  it("deals every shape exactly once in each bag of 7", () => {
+    seeds.forEach((seed) => {
+      const shapes = dealShapes("SevenBag", seed, 7 * 5);
+      Array.from({ length: 5 }, (_, bag) =>
+        shapes.slice(bag * 7, bag * 7 + 7)
+      ).forEach((bag) =>
+        expect([...bag].sort()).toEqual([...SHAPE_TYPES].sort())
+      );
+    });
+  });
+
+  it("never starts the history randomizer with an S or Z", () => {
+    seeds.forEach((seed) => {
+      const [first] = dealShapes("History", seed, 1);
+      expect(["S", "Z"]).not.toContain(first);
+    });
+  });
+
+  it("deals every shape with the uniform strategy, without keeping them to bags", () => {
+    const shapes = dealShapes("Uniform", 3, 700);
+    expect(new Set(shapes)).toEqual(new Set(SHAPE_TYPES));
+    expect(dealShapes("Uniform", 3, 700)).toEqual(shapes);
+    // some run of 7 shapes repeats a shape, which a bag never does
+    expect(
+      Array.from({ length: 100 }, (_, bag) =>
+        shapes.slice(bag * 7, bag * 7 + 7)
+      ).some((bag) => new Set(bag).size < 7)
+    ).toBe(true);
+  });
+
+  it("only takes the names of its strategies as a randomizer type", () => {
+    expect(isRandomizerType("History")).toBe(true);
+    expect(isRandomizerType("toString")).toBe(false);
+    expect(isRandomizerType("constructor")).toBe(false);
+    expect(isRandomizerType(null)).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { DefaultConfig } from "../src/constants";
+import { createInitialState, gameActions } from "../src/game";
+import {
+  advancePlayback,
+  controlPlayback,
+  createPlayback,
+  createReplay,
+  indexReplayEvents,
+  parseReplay,
+  playReplay,
+  recordEvent,
+  serializeReplay,
+} from "../src/replay";
+import { GameEvent, State } from "../src/types";
+
+// a game of moves, rotations, holds and drops between ticks, always the same for the same length
+const createEvents = (length: number): GameEvent[] => {
+  const inputs: GameEvent[] = [
+    "Left",
+    "RotateClockwise",
+    "Right",
+    "Right",
+    "Hold",
+    "Down",
+    "RotateAntiClockwise",
+    "HardDrop",
+  ];
+  return Array.from({ length }, (_, index) =>
+    index % 3 === 0 ? inputs[(index / 3) % inputs.length] : "Tick"
+  );
+};
+
+const play = (state: State, events: GameEvent[]) =>
+  events.reduce((s, event) => gameActions[event](s), state);
+
+describe("replay", () => {
+  const seed = 1234;
+  const events = createEvents(3000);
+  const finalState = play(createInitialState(DefaultConfig, seed), events);
+  const replay = events.reduce(recordEvent, createReplay(DefaultConfig, seed));
+
+  it("records ticks and input events", () => {
+    expect(replay.ticks).toBe(2000);
+    expect(replay.events).toHaveLength(1000);
+    expect(replay.events[1]).toEqual({ tick: 2, event: "RotateClockwise" });
+  });
+
+  it("groups the input events by the tick they were recorded at", () => {
+    const events = indexReplayEvents({
+      ...replay,
+      events: [
+        { tick: 0, event: "Left" },
+        { tick: 0, event: "HardDrop" },
+        { tick: 3, event: "Hold" },
+      ],
+    });
+    expect(events).toEqual({ 0: ["Left", "HardDrop"], 3: ["Hold"] });
+    expect(createPlayback(replay).events).toEqual(indexReplayEvents(replay));
+  });
+
+  it("plays back to the final state of the recorded game", () => {
+    expect(playReplay(replay)).toEqual(finalState);
+  });
+
+  it("plays back the same replay after a round trip through JSON", () => {
+    expect(playReplay(parseReplay(serializeReplay(replay)))).toEqual(
+      finalState
+    );
+  });
+
+  it("rejects replays of another version", () => {
+    const json = serializeReplay({ ...replay, version: 0 });
+    expect(() => parseReplay(json)).toThrow("Unsupported replay version");
+  });
+
+  it("rejects replays whose seed, ticks, config or events are not valid", () => {
+    const rejects = (changes: Record<string, unknown>, message: string) =>
+      expect(() =>
+        parseReplay(JSON.stringify({ ...replay, ...changes }))
+      ).toThrow(message);
+    rejects({ seed: "1234" }, "seed");
+    rejects({ seed: 1.5 }, "seed");
+    rejects({ ticks: -1 }, "ticks");
+    rejects({ ticks: null }, "ticks");
+    rejects({ config: null }, "config");
+    rejects({ config: { ...DefaultConfig, width: 31 } }, "config");
+    rejects({ config: { ...DefaultConfig, gravityCurve: [] } }, "config");
+    rejects({ config: { ...DefaultConfig, gravityCurve: [0] } }, "config");
+    rejects({ config: { ...DefaultConfig, randomizer: "toString" } }, "config");
+    rejects({ config: { ...DefaultConfig, mode: "Tetris" } }, "config");
+    rejects({ events: [{ tick: 0, event: "constructor" }] }, "events");
+    rejects({ events: [replay.events[1], replay.events[0]] }, "events");
+    rejects({ events: [{ tick: replay.ticks + 1, event: "Left" }] }, "events");
+  });
+
+  it("reaches the final state at any speed", () => {
+    const playback = controlPlayback(
+      controlPlayback(createPlayback(replay), { type: "Speed", speed: 4 }),
+      { type: "TogglePause" }
+    );
+    const finished = Array.from({ length: 600 }).reduce(
+      advancePlayback,
+      playback
+    );
+    expect(finished.tick).toBe(replay.ticks);
+    expect(finished.state).toEqual(finalState);
+  });
+
+  it("seeks to the state the recorded game was in at that tick", () => {
+    const seeked = controlPlayback(createPlayback(replay), {
+      type: "Seek",
+      tick: 900,
+    });
+    // 900 ticks and the 450 inputs that happened before them
+    expect(seeked.state).toEqual(
+      play(createInitialState(DefaultConfig, seed), events.slice(0, 1350))
+    );
+  });
+
+  it("stays where it is on a seek to a tick that is not a number and clamps any other tick", () => {
+    const playback = controlPlayback(createPlayback(replay), {
+      type: "Seek",
+      tick: 900,
+    });
+    [NaN, Infinity, -Infinity].forEach((tick) =>
+      expect(controlPlayback(playback, { type: "Seek", tick })).toBe(playback)
+    );
+    expect(controlPlayback(playback, { type: "Seek", tick: -5 }).tick).toBe(0);
+    expect(
+      controlPlayback(playback, { type: "Seek", tick: replay.ticks + 5 }).tick
+    ).toBe(replay.ticks);
+    expect(controlPlayback(playback, { type: "Seek", tick: 899.6 }).tick).toBe(
+      900
+    );
+  });
+});
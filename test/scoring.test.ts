@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { createBoard, placeBlock } from "../src/board";
+import { DefaultConfig, Scores } from "../src/constants";
+import { createInitialState } from "../src/game";
+import { getGridHeight } from "../src/generics";
+import { detectTSpin, getAttack, scoreClear } from "../src/scoring";
+import { CubePosition, Piece, State } from "../src/types";
+
+const bottom = getGridHeight(DefaultConfig) - 1;
+
+// a board with the given cells taken
+const boardWith = (cells: ReadonlyArray<CubePosition>) =>
+  placeBlock(createBoard(DefaultConfig), cells, "I");
+
+describe("scoring", () => {
+  it("detects t-spins with the 3-corner rule", () => {
+    // a T pointing down into a slot, with both corners it points to and one corner behind it taken
+    const slotted: Piece = {
+      shape: "T",
+      orientation: "2",
+      position: { x: 4, y: bottom - 2 },
+      kick: 0,
+    };
+    const slot = boardWith([
+      { x: 4, y: bottom },
+      { x: 6, y: bottom },
+      { x: 4, y: bottom - 2 },
+    ]);
+    expect(detectTSpin(slotted, slot, DefaultConfig)).toBe("Full");
+    // a T that got there without rotating is no t-spin
+    expect(
+      detectTSpin({ ...slotted, kick: undefined }, slot, DefaultConfig)
+    ).toBe("None");
+    // 2 corners are not enough
+    expect(
+      detectTSpin(
+        slotted,
+        boardWith([
+          { x: 4, y: bottom },
+          { x: 6, y: bottom },
+        ]),
+        DefaultConfig
+      )
+    ).toBe("None");
+
+    // a T pointing up on the floor, the floor takes both corners behind it and a block one in front of it
+    const flat: Piece = {
+      shape: "T",
+      orientation: "0",
+      position: { x: 0, y: bottom - 1 },
+      kick: 1,
+    };
+    const corner = boardWith([{ x: 0, y: bottom - 1 }]);
+    expect(detectTSpin(flat, corner, DefaultConfig)).toBe("Mini");
+    // the last kick test always makes it a full t-spin
+    expect(detectTSpin({ ...flat, kick: 4 }, corner, DefaultConfig)).toBe(
+      "Full"
+    );
+  });
+
+  it("adds combo points for consecutive clears and a back-to-back bonus for consecutive tetrises and t-spins", () => {
+    const initial = createInitialState(DefaultConfig, 1);
+    const clear = (
+      state: State,
+      rows: number,
+      tSpin: "None" | "Full" = "None"
+    ) => ({
+      ...state,
+      ...scoreClear(state, rows, tSpin),
+    });
+
+    const tetris = clear(initial, 4);
+    expect(tetris.score).toBe(Scores.TETRIS);
+    expect(tetris.combo).toBe(0);
+    expect(tetris.backToBack).toBe(true);
+
+    const tSpinDouble = clear(tetris, 2, "Full");
+    expect(tSpinDouble.score - tetris.score).toBe(
+      Scores["T-SPIN DOUBLE"] * Scores.BACK_TO_BACK_MULTIPLIER + Scores.COMBO
+    );
+    expect(tSpinDouble.lastClear).toEqual({
+      type: "T-SPIN DOUBLE",
+      backToBack: true,
+      combo: 1,
+    });
+
+    // a block that clears nothing breaks the combo but not the back-to-back chain, a single breaks the chain
+    const missed = clear(tSpinDouble, 0);
+    expect(missed.score).toBe(tSpinDouble.score);
+    expect(missed.combo).toBe(-1);
+    expect(missed.backToBack).toBe(true);
+    const single = clear(missed, 1);
+    expect(single.score - missed.score).toBe(Scores.SINGLE);
+    expect(single.backToBack).toBe(false);
+    expect(clear(single, 4).lastClear?.backToBack).toBe(false);
+  });
+
+  it("sends more garbage for back-to-back clears and combos", () => {
+    expect(getAttack({ type: "SINGLE", backToBack: false, combo: 0 })).toBe(0);
+    expect(getAttack({ type: "TETRIS", backToBack: false, combo: 0 })).toBe(4);
+    expect(getAttack({ type: "TETRIS", backToBack: true, combo: 2 })).toBe(
+      4 + 1 + 1
+    );
+    // combos past the end of the table send the most
+    expect(
+      getAttack({ type: "T-SPIN DOUBLE", backToBack: false, combo: 20 })
+    ).toBe(4 + 5);
+  });
+});
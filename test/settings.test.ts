@@ -0,0 +1,11 @@
+import { describe, expect, it } from "vitest";
+import { isInputAction } from "../src/settings";
+
+describe("settings", () => {
+  it("only takes the actions keys can be bound to as an input action", () => {
+    expect(isInputAction("HardDrop")).toBe(true);
+    expect(isInputAction("toString")).toBe(false);
+    expect(isInputAction("constructor")).toBe(false);
+    expect(isInputAction(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { createBoard } from "../src/board";
+import { DefaultConfig } from "../src/constants";
+import {
+  rotateBlockAntiClockwise,
+  rotateBlockClockwise,
+} from "../src/generics";
+import { getKicks, rotateOrientation } from "../src/srs";
+import { Orientation, Piece, ShapeType } from "../src/types";
+
+const board = createBoard(DefaultConfig);
+
+// every rotation between neighbouring orientations, clockwise and anticlockwise
+const rotations: ReadonlyArray<[Orientation, Orientation]> = [
+  ["0", "R"],
+  ["R", "2"],
+  ["2", "L"],
+  ["L", "0"],
+];
+
+// the kicks without negative zeros, which the y of the specification turns into when it is flipped
+const kicksOf = (shape: ShapeType, from: Orientation, to: Orientation) =>
+  getKicks(shape, from, to).map(({ x, y }) => ({ x: x + 0, y: y + 0 }));
+
+describe("super rotation system", () => {
+  it("cycles through the orientations in both directions", () => {
+    rotations.forEach(([from, to]) => {
+      expect(rotateOrientation(from, "RotateClockwise")).toBe(to);
+      expect(rotateOrientation(to, "RotateAntiClockwise")).toBe(from);
+    });
+  });
+
+  it("looks up the kicks of the specification with y pointing down", () => {
+    expect(kicksOf("T", "0", "R")).toEqual([
+      { x: 0, y: 0 },
+      { x: -1, y: 0 },
+      { x: -1, y: -1 },
+      { x: 0, y: 2 },
+      { x: -1, y: 2 },
+    ]);
+    expect(kicksOf("I", "0", "R")).toEqual([
+      { x: 0, y: 0 },
+      { x: -2, y: 0 },
+      { x: 1, y: 0 },
+      { x: -2, y: 1 },
+      { x: 1, y: -2 },
+    ]);
+    expect(getKicks("O", "0", "R")).toEqual([{ x: 0, y: 0 }]);
+
+    // rotating back tries the opposite offsets
+    (["I", "J", "L", "S", "T", "Z"] as ShapeType[]).forEach((shape) =>
+      rotations.forEach(([from, to]) =>
+        expect(kicksOf(shape, to, from)).toEqual(
+          kicksOf(shape, from, to).map(({ x, y }) => ({ x: 0 - x, y: 0 - y }))
+        )
+      )
+    );
+  });
+
+  it("kicks a T and an I away from the wall with the first offset that fits", () => {
+    // a T pointing right with its stem in the leftmost column has no room to point down
+    const t: Piece = {
+      shape: "T",
+      orientation: "R",
+      position: { x: -1, y: 10 },
+    };
+    expect(rotateBlockClockwise(t, board, DefaultConfig)).toEqual({
+      ...t,
+      orientation: "2",
+      position: { x: 0, y: 10 },
+      kick: 1,
+    });
+
+    // a vertical I against the left wall only fits lying down after the third offset
+    const i: Piece = {
+      shape: "I",
+      orientation: "R",
+      position: { x: -2, y: 10 },
+    };
+    expect(rotateBlockClockwise(i, board, DefaultConfig)).toEqual({
+      ...i,
+      orientation: "2",
+      position: { x: 0, y: 10 },
+      kick: 2,
+    });
+    expect(rotateBlockAntiClockwise(i, board, DefaultConfig)).toMatchObject({
+      orientation: "0",
+      kick: expect.any(Number),
+    });
+  });
+});
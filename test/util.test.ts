@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { DefaultConfig } from "../src/constants";
+import { generateBlock } from "../src/generics";
+import { createRandomizer } from "../src/randomizer";
+import { Piece, RandomizerState, ShapeType } from "../src/types";
+import { nextRandom, randomInt } from "../src/util";
+
+/**
+ * Deals the shapes of the first blocks of a game, the seed threaded from one block to the next as the game does.
+ * @param seed - The seed of the game.
+ * @param count - The number of blocks.
+ * @returns The shape of each block, in the order they are dealt.
+ */
+const dealShapes = (seed: number, count: number): ShapeType[] =>
+  Array.from({ length: count }).reduce<{
+    shapes: ShapeType[];
+    nextBlocks: ReadonlyArray<Piece>;
+    randomizer: RandomizerState;
+    seed: number;
+  }>(
+    (dealt) => {
+      const { newCurrentBlock, newNextBlocks, newRandomizer, newSeed } =
+        generateBlock(
+          dealt.nextBlocks,
+          dealt.randomizer,
+          dealt.seed,
+          DefaultConfig
+        );
+      return {
+        shapes: [...dealt.shapes, newCurrentBlock.shape],
+        nextBlocks: newNextBlocks,
+        randomizer: newRandomizer,
+        seed: newSeed,
+      };
+    },
+    {
+      shapes: [],
+      nextBlocks: [],
+      randomizer: createRandomizer(DefaultConfig.randomizer),
+      seed,
+    }
+  ).shapes;
+
+describe("seeded random numbers", () => {
+  it("gives the same numbers for the same seed and threads the next seed through", () => {
+    const first = nextRandom(42);
+    expect(nextRandom(42)).toEqual(first);
+    expect(first.value).toBeGreaterThanOrEqual(0);
+    expect(first.value).toBeLessThan(1);
+    expect(first.seed).not.toBe(42);
+    expect(nextRandom(first.seed).value).not.toBe(first.value);
+
+    const ints = Array.from({ length: 100 }).reduce<{
+      values: number[];
+      seed: number;
+    }>(
+      ({ values, seed }) => {
+        const { value, seed: nextSeed } = randomInt(2, 5, seed);
+        return { values: [...values, value], seed: nextSeed };
+      },
+      { values: [], seed: 1 }
+    ).values;
+    expect(ints.every((value) => value >= 2 && value <= 5)).toBe(true);
+    expect(new Set(ints)).toEqual(new Set([2, 3, 4, 5]));
+  });
+
+  it("deals the same pieces for the same seed and other pieces for another seed", () => {
+    expect(dealShapes(7, 21)).toEqual(dealShapes(7, 21));
+    expect(dealShapes(7, 21)).not.toEqual(dealShapes(8, 21));
+  });
+});
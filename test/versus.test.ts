@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { createBoard, getFilledCells, placeBlock } from "../src/board";
+import { DefaultConfig } from "../src/constants";
+import { dropBlock } from "../src/generics";
+import { getCubes } from "../src/shapes";
+import {
+  createVersusMatch,
+  createVersusState,
+  stepVersus,
+} from "../src/versus";
+import { State, VersusEvent, VersusState } from "../src/types";
+
+const tick: VersusEvent = { event: "Tick" };
+
+/**
+ * Fills the rows the current block lands in but for the cells of the block, so that hard dropping it clears them.
+ * @param state - The game state of a player with a falling block.
+ * @returns The game state with the filled rows.
+ */
+const fillAroundDrop = (state: State): State => {
+  const cubes = getCubes(
+    dropBlock(state.currentBlock, state.board, state.config)!
+  );
+  const rows = new Set(cubes.map(({ y }) => y));
+  const cells = Array.from(rows).flatMap((y) =>
+    Array.from({ length: state.config.width }, (_, x) => ({ x, y })).filter(
+      (cell) => !cubes.some((cube) => cube.x === cell.x && cube.y === cell.y)
+    )
+  );
+  return { ...state, board: placeBlock(state.board, cells, "I") };
+};
+
+describe("versus", () => {
+  it("gives both players the same blocks and sends the garbage of line clears to the opponent", () => {
+    const versus = stepVersus(createVersusState(DefaultConfig, 5), tick);
+    const [first, second] = versus.players;
+    expect(first.currentBlock).toEqual(second.currentBlock);
+    expect(first.nextBlocks).toEqual(second.nextBlocks);
+
+    // the O block clears a double, which sends 1 garbage row
+    const double = stepVersus(
+      { players: [fillAroundDrop(first), second] },
+      { player: 0, event: "HardDrop" }
+    );
+    expect(double.players[0].sentGarbage).toBe(0);
+    expect(double.players[1].pendingGarbage).toBe(1);
+
+    // the garbage on its way to the player who clears is cancelled first
+    const cancelled = stepVersus(
+      { players: [{ ...fillAroundDrop(first), pendingGarbage: 3 }, second] },
+      { player: 0, event: "HardDrop" }
+    );
+    expect(cancelled.players[0].pendingGarbage).toBe(2);
+    expect(cancelled.players[1].pendingGarbage).toBe(0);
+
+    // a block that clears nothing lets the garbage in
+    const pushed = stepVersus(double, { player: 1, event: "HardDrop" });
+    expect(pushed.players[1].pendingGarbage).toBe(0);
+    expect(
+      getFilledCells(pushed.players[1].board).filter(
+        ({ type }) => type === "Garbage"
+      )
+    ).toHaveLength(DefaultConfig.width - 1);
+    expect(pushed.players[0].board).toEqual(double.players[0].board);
+  });
+
+  it("ends the match when a player tops out until it is restarted", () => {
+    const match = createVersusMatch(DefaultConfig, 3);
+    // the second player hard drops every block and stacks them up to the top
+    const over = Array.from({ length: 5000 }).reduce(
+      (versus: VersusState) =>
+        versus.winner !== undefined
+          ? versus
+          : match.step(
+              versus.players[1].currentBlock
+                ? { player: 1, event: "HardDrop" }
+                : tick
+            ),
+      match.getState()
+    );
+    expect(over.winner).toBe(0);
+    expect(match.step(tick)).toBe(over);
+
+    const restarted = match.step({ player: 1, event: "Restart" });
+    expect(restarted.winner).toBeUndefined();
+    expect(restarted.players[0]).toEqual(restarted.players[1]);
+    expect(restarted.players[0].board).toEqual(createBoard(DefaultConfig));
+  });
+});
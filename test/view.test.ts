@@ -0,0 +1,131 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import {
+  BoardPresets,
+  DefaultConfig,
+  getViewport,
+  Themes,
+} from "../src/constants";
+import { createGame } from "../src/engine";
+import { State, TextElements } from "../src/types";
+import { createSvgRenderer, getGameOverBox, renderGame } from "../src/view";
+
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+
+const setUp = () => {
+  const svg = document.createElementNS(SVG_NAMESPACE, "svg");
+  const preview = document.createElementNS(SVG_NAMESPACE, "svg");
+  const hold = document.createElementNS(SVG_NAMESPACE, "svg");
+  const textElements: TextElements = {
+    score: document.createElement("span"),
+    highScore: document.createElement("span"),
+    level: document.createElement("span"),
+    lines: document.createElement("span"),
+    lastClear: document.createElement("span"),
+    mode: document.createElement("span"),
+    timer: document.createElement("span"),
+  };
+  [svg, preview, hold, ...Object.values(textElements)].forEach((element) =>
+    document.body.appendChild(element)
+  );
+
+  const observer = new MutationObserver(() => undefined);
+  observer.observe(document.body, {
+    subtree: true,
+    childList: true,
+    attributes: true,
+    characterData: true,
+  });
+
+  const renderer = createSvgRenderer({
+    board: svg,
+    preview,
+    hold,
+    textElements,
+  });
+
+  // renders a state and returns the DOM mutations it caused
+  const renderState = (state: State) => {
+    renderGame(renderer, state, Themes.Classic);
+    return observer.takeRecords();
+  };
+
+  return { svg, renderState };
+};
+
+describe("createSvgRenderer", () => {
+  it("does not touch the DOM when nothing changed", () => {
+    const { renderState } = setUp();
+    const game = createGame(DefaultConfig, 1);
+    renderState(game.step("Tick"));
+
+    expect(renderState(game.getState())).toHaveLength(0);
+  });
+
+  it("does not touch the DOM on a tick where the block does not move", () => {
+    const { renderState } = setUp();
+    const game = createGame(DefaultConfig, 1);
+    renderState(game.step("Tick"));
+
+    // at level 1 a block falls one row per second, so the next tick only advances the gravity timer
+    expect(renderState(game.step("Tick"))).toHaveLength(0);
+  });
+
+  it("only updates the cells that changed when the block falls a row", () => {
+    const { svg, renderState } = setUp();
+    const game = createGame(DefaultConfig, 1);
+    renderState(game.step("Tick"));
+    const elements = svg.childElementCount;
+
+    const mutations = renderState(game.step("Down"));
+    // no elements are created or removed
+    expect(
+      mutations.filter(
+        ({ type, target }) => type === "childList" && target === svg
+      )
+    ).toHaveLength(0);
+    expect(svg.childElementCount).toBe(elements);
+    // at most the 8 cells the block left and moved into change, and the score text
+    const changedTargets = new Set(mutations.map(({ target }) => target));
+    expect(changedTargets.size).toBeGreaterThan(0);
+    expect(changedTargets.size).toBeLessThanOrEqual(2 * 8 + 1);
+    // each changed cell updates at most its style and visibility of its rect and pattern, plus the pattern path
+    expect(mutations.length).toBeLessThanOrEqual(8 * 5 + 1);
+  });
+
+  it("updates far fewer elements per tick than drawing the board from scratch", () => {
+    const { svg, renderState } = setUp();
+    const game = createGame(DefaultConfig, 1);
+    const first = renderState(game.step("Tick"));
+    // 20 seconds of falling and locking blocks
+    const perTick = Array.from({ length: 1000 }, () =>
+      renderState(game.step("Tick"))
+    ).map((mutations) => mutations.length);
+    const average =
+      perTick.reduce((sum, count) => sum + count) / perTick.length;
+
+    expect(first.length).toBeGreaterThan(svg.childElementCount / 2);
+    expect(average).toBeLessThan(2);
+    expect(Math.max(...perTick)).toBeLessThan(svg.childElementCount / 4);
+  });
+});
+
+describe("getGameOverBox", () => {
+  it("centers the game over box and its texts on the board of every preset", () => {
+    Object.values(BoardPresets).forEach((preset) => {
+      const config = { ...DefaultConfig, ...preset };
+      const { CANVAS_WIDTH, CANVAS_HEIGHT } = getViewport(config);
+      const box = getGameOverBox(config);
+      expect(box.x).toBeGreaterThanOrEqual(0);
+      expect(box.x + box.width).toBeLessThanOrEqual(CANVAS_WIDTH);
+      expect(
+        Math.abs(CANVAS_WIDTH - box.width - 2 * box.x)
+      ).toBeLessThanOrEqual(1);
+      expect(
+        Math.abs(CANVAS_HEIGHT - box.height - 2 * box.y)
+      ).toBeLessThanOrEqual(1);
+      expect(box.textX).toBeGreaterThan(box.x);
+      expect(box.reasonY).toBeLessThan(box.y + box.height);
+    });
+  });
+});